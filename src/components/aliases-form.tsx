@@ -0,0 +1,45 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { GameAliases, parseAliases, setAliases } from "../utils/aliases";
+import { showFailure } from "../utils";
+
+/**
+ * Edit the extra names a game can be searched by
+ */
+export function AliasesForm(props: {
+  appid: string;
+  title: string;
+  aliases: string[];
+  onChange: (store: GameAliases) => void;
+}) {
+  const { appid, title, aliases, onChange } = props;
+  const { pop } = useNavigation();
+
+  async function onSubmit(values: { aliases: string }) {
+    try {
+      onChange(await setAliases(appid, parseAliases(values.aliases)));
+      await showToast({ style: Toast.Style.Success, title: "Saved aliases", message: title });
+      pop();
+    } catch (e: unknown) {
+      await showFailure(e, { title: "Failed to save aliases" });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Aliases: ${title}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Aliases" icon={Icon.SaveDocument} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="aliases"
+        title="Aliases"
+        placeholder="gta, gta5"
+        defaultValue={aliases.join(", ")}
+        info="Comma-separated. Searching for any of these finds the game, ranked like its name."
+      />
+    </Form>
+  );
+}
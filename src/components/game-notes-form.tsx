@@ -0,0 +1,86 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import {
+  BACKLOG_STATUSES,
+  BACKLOG_STATUS_TITLES,
+  GameNote,
+  GameNotes,
+  isBacklogStatus,
+  saveGameNote,
+} from "../utils/game-notes";
+import { showFailure } from "../utils";
+
+const NO_STATUS = "none";
+
+/**
+ * Edit a game's personal tags, backlog status and Markdown note
+ */
+export function GameNotesForm(props: {
+  appid: string;
+  title: string;
+  note?: GameNote;
+  knownTags: string[];
+  onChange: (store: GameNotes) => void;
+}) {
+  const { appid, title, note, knownTags, onChange } = props;
+  const { pop } = useNavigation();
+  const [status, setStatus] = useState<string>(note?.status ?? NO_STATUS);
+
+  async function onSubmit(values: { tags: string; status: string; completedAt?: Date | null; note: string }) {
+    const nextStatus = isBacklogStatus(values.status) ? values.status : undefined;
+    try {
+      onChange(
+        await saveGameNote(appid, {
+          tags: values.tags.split(","),
+          note: values.note,
+          status: nextStatus,
+          completedAt: nextStatus === "completed" ? (values.completedAt ?? new Date()).toISOString() : undefined,
+        }),
+      );
+      await showToast({ style: Toast.Style.Success, title: "Saved notes", message: title });
+      pop();
+    } catch (e: unknown) {
+      await showFailure(e, { title: "Failed to save notes" });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Notes: ${title}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Notes" icon={Icon.SaveDocument} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="status" title="Status" value={status} onChange={setStatus}>
+        <Form.Dropdown.Item value={NO_STATUS} title="None" />
+        {BACKLOG_STATUSES.map((s) => (
+          <Form.Dropdown.Item key={s} value={s} title={BACKLOG_STATUS_TITLES[s]} />
+        ))}
+      </Form.Dropdown>
+      {status === "completed" && (
+        <Form.DatePicker
+          id="completedAt"
+          title="Completed On"
+          type={Form.DatePicker.Type.Date}
+          defaultValue={note?.completedAt ? new Date(note.completedAt) : new Date()}
+        />
+      )}
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        placeholder="co-op, short, comfy"
+        defaultValue={note?.tags.join(", ") ?? ""}
+        info={knownTags.length ? `Comma-separated. In use: ${knownTags.join(", ")}` : "Comma-separated."}
+      />
+      <Form.TextArea
+        id="note"
+        title="Note"
+        placeholder="Where you left off, builds, things to try..."
+        defaultValue={note?.note ?? ""}
+        enableMarkdown
+      />
+    </Form>
+  );
+}
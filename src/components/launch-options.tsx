@@ -0,0 +1,127 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  getCurrentSteamUser,
+  getLaunchOptions,
+  getSteamInstallPath,
+  getSteamUserDisplayName,
+  isSteamRunning,
+  setLaunchOptions,
+} from "../utils/steam";
+import { launchGameWithFeedback } from "../utils/launch";
+import { showFailure } from "../utils";
+import { getHost } from "../utils/host";
+
+const host = getHost();
+
+/**
+ * Edit the launch options Steam stores for a game in the signed-in account's localconfig.vdf
+ */
+export function LaunchOptionsForm(props: { appid: string; title: string }) {
+  const { appid, title } = props;
+  const { pop } = useNavigation();
+  const [isLoading, setIsLoading] = useState(true);
+  const [options, setOptions] = useState("");
+  const [steamId, setSteamId] = useState<string>();
+  const [accountName, setAccountName] = useState<string>();
+  const [steamRunning, setSteamRunning] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const paths = await getSteamInstallPath(host);
+        if (!paths) throw new Error("Steam installation not found");
+        const user = await getCurrentSteamUser(host, paths);
+        if (!user) throw new Error("No signed-in Steam account found");
+        setSteamId(user);
+        setAccountName(await getSteamUserDisplayName(host, user, paths));
+        setOptions(await getLaunchOptions(host, user, appid, paths));
+        setSteamRunning(await isSteamRunning(host));
+      } catch (e: unknown) {
+        await showFailure(e, { title: "Failed to read launch options" });
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [appid]);
+
+  async function onSave() {
+    if (!steamId) return;
+    try {
+      await setLaunchOptions(host, steamId, appid, options.trim());
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Saved launch options",
+        message: title,
+      });
+      pop();
+    } catch (e: unknown) {
+      setSteamRunning(await isSteamRunning(host).catch(() => false));
+      await showFailure(e, { title: "Failed to save launch options" });
+    }
+  }
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={`Launch Options: ${title}`}
+      actions={
+        <ActionPanel>
+          <Action title="Save Launch Options" icon={Icon.SaveDocument} onAction={onSave} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Account" text={accountName ?? steamId ?? "Unknown"} />
+      {steamRunning && (
+        <Form.Description
+          title="Steam Is Running"
+          text="Quit Steam before saving: it overwrites localconfig.vdf when it exits. Launching with extra arguments still works."
+        />
+      )}
+      <Form.TextField
+        id="launchOptions"
+        title="Launch Options"
+        placeholder="-novid -fullscreen or PROTON_LOG=1 %command%"
+        value={options}
+        onChange={setOptions}
+        info="Same as Properties → Launch Options in Steam. A backup of localconfig.vdf is made on save."
+      />
+    </Form>
+  );
+}
+
+/**
+ * Launch a game once with extra arguments, without changing its saved launch options
+ */
+export function LaunchWithArgumentsForm(props: { appid: string; title: string }) {
+  const { appid, title } = props;
+  const { pop } = useNavigation();
+  const [args, setArgs] = useState("");
+
+  return (
+    <Form
+      navigationTitle={`Launch ${title}`}
+      actions={
+        <ActionPanel>
+          <Action
+            title="Launch Game"
+            icon={Icon.Play}
+            onAction={async () => {
+              await launchGameWithFeedback(host, { appid, name: title }, { args });
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="args"
+        title="Arguments"
+        placeholder="-console +map de_dust2"
+        value={args}
+        onChange={setArgs}
+        info="Added to the saved launch options for this launch only."
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,107 @@
+import { Action, ActionPanel, Alert, Form, Icon, Toast, confirmAlert, showToast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { deleteLaunchProfile, LaunchProfile, LaunchProfileStore, saveLaunchProfile } from "../utils/profiles";
+import { showFailure } from "../utils";
+
+/**
+ * Create or edit a named launch profile for a game. Pass `profile` to edit an existing one.
+ */
+export function LaunchProfileForm(props: {
+  appid: string;
+  title: string;
+  profile?: LaunchProfile;
+  onChange: (store: LaunchProfileStore) => void;
+}) {
+  const { appid, title, profile, onChange } = props;
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  async function onSubmit(values: { name: string; args: string; bigPictureFirst: boolean; envHints: string }) {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("Name is required");
+      return;
+    }
+    try {
+      const store = await saveLaunchProfile(appid, {
+        id: profile?.id,
+        name,
+        args: values.args.trim(),
+        bigPictureFirst: values.bigPictureFirst || undefined,
+        envHints: values.envHints.trim() || undefined,
+      });
+      onChange(store);
+      await showToast({
+        style: Toast.Style.Success,
+        title: profile ? "Updated launch profile" : "Added launch profile",
+        message: `${title}: ${name}`,
+      });
+      pop();
+    } catch (e: unknown) {
+      await showFailure(e, { title: "Failed to save launch profile" });
+    }
+  }
+
+  async function onDelete() {
+    if (!profile) return;
+    const ok = await confirmAlert({
+      title: `Delete "${profile.name}"?`,
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+      icon: Icon.Trash,
+    });
+    if (!ok) return;
+    onChange(await deleteLaunchProfile(appid, profile.id));
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={profile ? `Edit Profile: ${profile.name}` : `New Launch Profile: ${title}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Profile" icon={Icon.SaveDocument} onSubmit={onSubmit} />
+          {profile && (
+            <Action
+              title="Delete Profile"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              onAction={onDelete}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            />
+          )}
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Streaming"
+        defaultValue={profile?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.TextField
+        id="args"
+        title="Arguments"
+        placeholder="-dx11 -novid"
+        defaultValue={profile?.args}
+        info="Added to the game's saved launch options for launches with this profile."
+      />
+      <Form.Checkbox
+        id="bigPictureFirst"
+        label="Start Steam in Big Picture first"
+        defaultValue={profile?.bigPictureFirst ?? false}
+      />
+      <Form.TextField
+        id="envHints"
+        title="Environment Hints"
+        placeholder="PROTON_LOG=1, DXVK_HUD=fps"
+        defaultValue={profile?.envHints}
+        info="Shown as a reminder when launching. Steam only applies environment variables set in Launch Options with %command%."
+      />
+    </Form>
+  );
+}
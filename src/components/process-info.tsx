@@ -0,0 +1,49 @@
+import { Action, ActionPanel, Detail, Icon } from "@raycast/api";
+import { RunningGame } from "../utils/steam";
+import { formatBytes } from "../utils";
+
+export function formatUptime(since: Date, now = Date.now()): string {
+  const minutes = Math.max(0, Math.floor((now - since.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Processes belonging to a running game, as matched by getRunningGames.
+ */
+export function ProcessInfoView(props: { title: string; running: RunningGame }) {
+  const { title, running } = props;
+  const rows = running.processes.map(
+    (p) =>
+      `| ${p.pid} | ${p.name} | ${p.memoryUsage !== undefined ? formatBytes(p.memoryUsage) : "—"} | ${
+        p.startTime ? p.startTime.toLocaleTimeString() : "—"
+      } |`,
+  );
+  const paths = running.processes.map(
+    (p) => `**${p.name}** (${p.pid})\n\n\`\`\`\n${p.commandLine || p.path || "Path not available"}\n\`\`\``,
+  );
+  const markdown = `# ${title}
+
+${running.startTime ? `Running for **${formatUptime(running.startTime)}** since ${running.startTime.toLocaleString()}` : "Running"}
+
+| PID | Process | Memory | Started |
+| --- | --- | --- | --- |
+${rows.join("\n")}
+
+## Command Lines
+
+${paths.join("\n\n")}
+`;
+
+  return (
+    <Detail
+      navigationTitle={`Processes: ${title}`}
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Details" content={markdown} icon={Icon.Clipboard} />
+        </ActionPanel>
+      }
+    />
+  );
+}
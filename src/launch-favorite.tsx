@@ -0,0 +1,54 @@
+import { LaunchProps, showToast, Toast } from "@raycast/api";
+import { getCurrentSteamUser, getSteamInstallPath, listInstalledGames } from "./utils/steam";
+import { loadFavorites } from "./utils/favorites";
+import { loadAliases } from "./utils/aliases";
+import { scoreFields } from "./utils/fuzzy";
+import { launchGameWithFeedback } from "./utils/launch";
+import { showFailure } from "./utils";
+import { getHost } from "./utils/host";
+
+const host = getHost();
+
+export default async function LaunchFavorite(props: LaunchProps<{ arguments: { name: string } }>) {
+  const query = props.arguments.name.trim();
+  try {
+    const favorites = await loadFavorites();
+    if (favorites.size === 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "No favorites yet",
+        message: "Add games to Favorites in Steam Utilities with Ctrl + H",
+      });
+      return;
+    }
+    const paths = await getSteamInstallPath(host);
+    if (!paths) throw new Error("Steam installation not found. Is Steam installed?");
+    const games = (await listInstalledGames(paths.steamPath)).filter((g) => favorites.has(g.appid));
+
+    // Best match by name or alias; an exact App ID also works
+    const aliases = await loadAliases();
+    const best = games
+      .map((g) => ({
+        game: g,
+        score: scoreFields(query, [
+          { text: g.name, weight: 1 },
+          ...(aliases[g.appid] ?? []).map((a) => ({ text: a, weight: 1 })),
+          { text: g.appid, weight: 1, exact: true },
+        ]),
+      }))
+      .filter((m) => m.score > 0)
+      .sort((a, b) => b.score - a.score || a.game.name.localeCompare(b.game.name))[0];
+    if (!best) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `No favorite matches "${query}"`,
+        message: games.map((g) => g.name).join(", "),
+      });
+      return;
+    }
+    const user = await getCurrentSteamUser(host, paths);
+    await launchGameWithFeedback(host, best.game, { steamId64: user, paths });
+  } catch (e: unknown) {
+    await showFailure(e, { title: "Failed to launch favorite" });
+  }
+}
@@ -0,0 +1,259 @@
+import { Action, ActionPanel, Alert, Color, Icon, List, Toast, confirmAlert, showToast } from "@raycast/api";
+import { basename, join } from "path";
+import { useEffect, useState } from "react";
+import {
+  findLibraryIssues,
+  getAppManifestPath,
+  getDirectorySize,
+  getSteamInstallPath,
+  isInstallFolderClaimed,
+  LibraryIssue,
+  removeLibraryFiles,
+  runSteamAppCommand,
+  SteamGame,
+} from "./utils/steam";
+import { formatBytes, showFailure } from "./utils";
+import { getHost } from "./utils/host";
+
+const host = getHost();
+
+type OrphanIssue = Extract<LibraryIssue, { kind: "orphanFolder" }>;
+type MissingIssue = Extract<LibraryIssue, { kind: "missingInstall" }>;
+type DuplicateIssue = Extract<LibraryIssue, { kind: "duplicate" }>;
+
+function gameFolder(g: SteamGame): string {
+  return join(g.libraryPath, "steamapps", "common", g.installdir);
+}
+
+export default function LibraryCleanup() {
+  const [issues, setIssues] = useState<LibraryIssue[]>([]);
+  const [steamPath, setSteamPath] = useState<string>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshTick, setRefreshTick] = useState(0);
+  const [sizes, setSizes] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setIsLoading(true);
+    getSteamInstallPath(host)
+      .then((paths) => {
+        if (!paths) throw new Error("Steam installation not found");
+        setSteamPath(paths.steamPath);
+        setIssues(findLibraryIssues(paths.steamPath));
+      })
+      .catch((e: unknown) => showFailure(e, { title: "Failed to scan Steam libraries" }))
+      .finally(() => setIsLoading(false));
+  }, [refreshTick]);
+
+  // Measure folders one at a time in the background
+  useEffect(() => {
+    const controller = new AbortController();
+    const folders = issues.flatMap((i) =>
+      i.kind === "orphanFolder" ? [i.folder] : i.kind === "duplicate" ? i.copies.map(gameFolder) : [],
+    );
+    (async () => {
+      for (const folder of folders) {
+        const size = await getDirectorySize(folder, controller.signal);
+        if (controller.signal.aborted) return;
+        if (size !== undefined) setSizes((prev) => ({ ...prev, [folder]: size }));
+      }
+    })();
+    return () => controller.abort();
+  }, [issues]);
+
+  const orphans = issues.filter((i): i is OrphanIssue => i.kind === "orphanFolder");
+  const missing = issues.filter((i): i is MissingIssue => i.kind === "missingInstall");
+  const duplicates = issues.filter((i): i is DuplicateIssue => i.kind === "duplicate");
+
+  function sizeAccessory(folder: string) {
+    const size = sizes[folder];
+    return { text: size !== undefined ? formatBytes(size) : "Calculating…" };
+  }
+
+  async function onDelete(
+    title: string,
+    message: string,
+    files: { folder?: string; manifestPath?: string },
+    done: string,
+  ) {
+    const ok = await confirmAlert({
+      title,
+      message,
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+      icon: Icon.Trash,
+    });
+    if (!ok || !steamPath) return;
+    // Steam may have written a manifest for the folder since the scan
+    if (files.folder && isInstallFolderClaimed(files.folder, { except: files.manifestPath })) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Not deleted",
+        message: `A Steam manifest now points at ${basename(files.folder)}. Rescanning.`,
+      });
+      setRefreshTick((prev) => prev + 1);
+      return;
+    }
+    try {
+      await removeLibraryFiles(host, steamPath, files);
+      await showToast({ style: Toast.Style.Success, title: done });
+      setRefreshTick((prev) => prev + 1);
+    } catch (e: unknown) {
+      await showFailure(e, { title: "Delete failed" });
+    }
+  }
+
+  const commonActions = (
+    <Action
+      title="Rescan Libraries"
+      onAction={() => setRefreshTick((prev) => prev + 1)}
+      icon={Icon.ArrowClockwise}
+      shortcut={{ modifiers: ["ctrl"], key: "r" }}
+    />
+  );
+
+  function openAction(path: string, title = "Open Folder") {
+    return (
+      <Action
+        title={title}
+        onAction={() => host.openPath(path).catch((e) => showFailure(e, { title: "Failed to open folder" }))}
+        icon={Icon.Folder}
+        shortcut={{ modifiers: ["ctrl"], key: "f" }}
+      />
+    );
+  }
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search folders and games...">
+      <List.EmptyView
+        title="Libraries Look Clean"
+        description="No orphaned folders, missing installs or duplicate games found"
+        icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+        actions={<ActionPanel>{commonActions}</ActionPanel>}
+      />
+
+      <List.Section title="Orphaned Folders" subtitle="Folders in steamapps/common without a manifest">
+        {orphans.map((o) => (
+          <List.Item
+            key={o.folder}
+            title={basename(o.folder)}
+            subtitle={o.library.path}
+            icon={{ source: Icon.Folder, tintColor: Color.Orange }}
+            accessories={[sizeAccessory(o.folder)]}
+            actions={
+              <ActionPanel>
+                {openAction(o.folder)}
+                <Action
+                  title="Delete Folder"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                  onAction={() =>
+                    onDelete(
+                      `Delete ${basename(o.folder)}?`,
+                      `${o.folder} and everything in it will be permanently deleted.`,
+                      { folder: o.folder },
+                      `Deleted ${basename(o.folder)}`,
+                    )
+                  }
+                />
+                <Action.CopyToClipboard title="Copy Path" content={o.folder} />
+                {commonActions}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+
+      <List.Section title="Missing Installs" subtitle="Manifests whose install folder no longer exists">
+        {missing.map((m) => (
+          <List.Item
+            key={m.manifestPath}
+            title={m.game.name}
+            subtitle={`${m.library.path} · ${m.game.installdir} missing`}
+            keywords={[m.game.appid]}
+            icon={{ source: Icon.Warning, tintColor: Color.Red }}
+            accessories={[
+              {
+                text: m.game.sizeOnDisk ? formatBytes(m.game.sizeOnDisk) : "Unknown size",
+                tooltip: "Size recorded in the manifest",
+              },
+            ]}
+            actions={
+              <ActionPanel>
+                {openAction(m.library.steamapps, "Open Library Folder")}
+                <Action
+                  title="Install or Repair"
+                  icon={Icon.Download}
+                  onAction={() =>
+                    runSteamAppCommand(host, "install", m.game.appid).catch((e) =>
+                      showFailure(e, { title: "Failed to start install" }),
+                    )
+                  }
+                />
+                <Action
+                  title="Delete Manifest"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                  onAction={() =>
+                    onDelete(
+                      `Delete manifest for ${m.game.name}?`,
+                      `${basename(m.manifestPath)} will be deleted. Restart Steam afterwards so it forgets the install.`,
+                      { manifestPath: m.manifestPath },
+                      `Deleted manifest for ${m.game.name}`,
+                    )
+                  }
+                />
+                {commonActions}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+
+      {duplicates.map((d) => (
+        <List.Section
+          key={d.appid}
+          title={`Duplicate: ${d.name}`}
+          subtitle={`Installed in ${d.copies.length} libraries`}
+        >
+          {d.copies.map((copy) => {
+            const folder = gameFolder(copy);
+            return (
+              <List.Item
+                key={`${d.appid}-${copy.libraryPath}`}
+                title={copy.libraryPath}
+                subtitle={copy.status.label}
+                keywords={[d.name, d.appid]}
+                icon={{ source: Icon.CopyClipboard, tintColor: Color.Yellow }}
+                accessories={[sizeAccessory(folder)]}
+                actions={
+                  <ActionPanel>
+                    {openAction(folder)}
+                    <Action
+                      title="Delete This Copy"
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                      onAction={() =>
+                        onDelete(
+                          `Delete ${d.name} from ${copy.libraryPath}?`,
+                          "The game folder and its manifest in this library will be permanently deleted. Steam has to be closed.",
+                          { folder, manifestPath: getAppManifestPath(copy.libraryPath, copy.appid) },
+                          `Deleted ${d.name} from ${copy.libraryPath}`,
+                        )
+                      }
+                    />
+                    {commonActions}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,317 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Detail,
+  Form,
+  Icon,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  getAppMetadata,
+  getAppUsage,
+  getCurrentSteamUser,
+  getSteamInstallPath,
+  listInstalledGames,
+  SteamPaths,
+} from "./utils/steam";
+import {
+  clearExcludedGames,
+  excludeGame,
+  loadExcludedGames,
+  matchesFilters,
+  PickCandidate,
+  PickFilters,
+  pickWeight,
+  pickWeighted,
+} from "./utils/picker";
+import { loadFavorites } from "./utils/favorites";
+import { loadGameNotes } from "./utils/game-notes";
+import { launchGameWithFeedback } from "./utils/launch";
+import { driveOf, formatBytes, showFailure } from "./utils";
+import { getHost } from "./utils/host";
+
+const host = getHost();
+
+const ANY = "any";
+
+interface Account {
+  steamId64?: string;
+  paths: SteamPaths;
+}
+
+async function loadCandidates(): Promise<{ candidates: PickCandidate[]; account: Account }> {
+  const paths = await getSteamInstallPath(host);
+  if (!paths) throw new Error("Steam installation not found. Is Steam installed?");
+  const user = await getCurrentSteamUser(host, paths);
+  const usage = user ? await getAppUsage(host, user, paths) : {};
+  const games = await listInstalledGames(paths.steamPath);
+  const metadata = await getAppMetadata(
+    paths.steamPath,
+    games.map((g) => g.appid),
+  );
+  const favorites = await loadFavorites();
+  const notes = await loadGameNotes();
+  const candidates = games
+    // Only things that can be played; tools and soundtracks have no business in the pick
+    .filter((g) => g.status.kind === "ready" && (metadata[g.appid]?.type ?? "game").toLowerCase() === "game")
+    .map((g) => ({
+      game: g,
+      favorite: favorites.has(g.appid),
+      playtimeMinutes: usage[g.appid]?.playtimeMinutes ?? 0,
+      lastPlayed: usage[g.appid]?.lastPlayed,
+      sizeBytes: g.sizeOnDisk,
+      drive: driveOf(g.libraryPath) ?? g.libraryPath,
+      genres: metadata[g.appid]?.genres ?? [],
+      tags: [...new Set([...(notes[g.appid]?.tags ?? []), ...(metadata[g.appid]?.storeTags ?? [])])],
+    }));
+  return { candidates, account: { steamId64: user, paths } };
+}
+
+function formatPlaytime(minutes: number): string {
+  if (minutes === 0) return "Never played";
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function pickMarkdown(c: PickCandidate, poolSize: number): string {
+  return `# ${c.game.name}
+
+<img src="https://steamcdn-a.akamaihd.net/steam/apps/${c.game.appid}/header.jpg" width="460" />
+
+**Playtime:** ${formatPlaytime(c.playtimeMinutes)}  
+**Last Played:** ${c.lastPlayed ? c.lastPlayed.toLocaleDateString() : "Never"}  
+**Size:** ${c.sizeBytes ? formatBytes(c.sizeBytes) : "Unknown"}  
+${c.genres.length ? `**Genre:** ${c.genres.join(", ")}  \n` : ""}${c.tags.length ? `**Tags:** ${c.tags.slice(0, 6).join(", ")}  \n` : ""}
+*Picked from ${poolSize} matching game${poolSize === 1 ? "" : "s"}, weighted toward ones you haven't played in a while.*`;
+}
+
+function PickResult(props: {
+  candidates: PickCandidate[];
+  account: Account;
+  onExcluded: (excluded: Set<string>) => void;
+}) {
+  const { candidates, account, onExcluded } = props;
+  const { pop } = useNavigation();
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const pool = candidates.filter((c) => !excluded.has(c.game.appid));
+  const [pick, setPick] = useState<PickCandidate | undefined>(() =>
+    pickWeighted(candidates, (c) => pickWeight(c.lastPlayed)),
+  );
+
+  function reroll(from = pool) {
+    // Avoid showing the same game twice in a row when there is a choice
+    const others = from.length > 1 ? from.filter((c) => c.game.appid !== pick?.game.appid) : from;
+    setPick(pickWeighted(others, (c) => pickWeight(c.lastPlayed)));
+  }
+
+  async function onExclude(c: PickCandidate) {
+    const ok = await confirmAlert({
+      title: `Never suggest ${c.game.name}?`,
+      message: "It will be left out of future picks. You can clear exclusions from the filter form.",
+      primaryAction: {
+        title: "Exclude",
+        style: Alert.ActionStyle.Destructive,
+      },
+      icon: Icon.EyeDisabled,
+    });
+    if (!ok) return;
+    try {
+      const next = await excludeGame(c.game.appid);
+      setExcluded(next);
+      onExcluded(next);
+      await showToast({ style: Toast.Style.Success, title: `Excluded ${c.game.name}` });
+      reroll(candidates.filter((x) => !next.has(x.game.appid)));
+    } catch (e: unknown) {
+      await showFailure(e, { title: "Failed to exclude game" });
+    }
+  }
+
+  if (!pick) {
+    return (
+      <Detail
+        markdown={"# Nothing Left to Pick\n\nEvery matching game has been excluded. Try different filters."}
+        actions={
+          <ActionPanel>
+            <Action title="Change Filters" onAction={pop} icon={Icon.Filter} />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  return (
+    <Detail
+      navigationTitle="Pick a Game"
+      markdown={pickMarkdown(pick, pool.length)}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="App ID" text={pick.game.appid} icon={Icon.Hashtag} />
+          <Detail.Metadata.Label title="Library" text={pick.game.libraryPath} icon={Icon.HardDrive} />
+          {pick.favorite && <Detail.Metadata.Label title="Favorite" text="Yes" icon={Icon.Heart} />}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action
+            title="Launch Game"
+            onAction={() => launchGameWithFeedback(host, pick.game, account)}
+            icon={Icon.Play}
+          />
+          <Action
+            title="Reroll"
+            onAction={() => reroll()}
+            icon={Icon.Shuffle}
+            shortcut={{ modifiers: ["ctrl"], key: "r" }}
+          />
+          <Action
+            title="Exclude Forever"
+            onAction={() => onExclude(pick)}
+            icon={Icon.EyeDisabled}
+            style={Action.Style.Destructive}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+          />
+          <Action
+            title="Change Filters"
+            onAction={pop}
+            icon={Icon.Filter}
+            shortcut={{ modifiers: ["ctrl"], key: "f" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+export default function PickGame() {
+  const { push } = useNavigation();
+  const [isLoading, setIsLoading] = useState(true);
+  const [candidates, setCandidates] = useState<PickCandidate[]>([]);
+  const [account, setAccount] = useState<Account>();
+  const [excludedCount, setExcludedCount] = useState(0);
+  const [played, setPlayed] = useState<PickFilters["played"]>("any");
+  const [hoursError, setHoursError] = useState<string | undefined>();
+  const [sizeError, setSizeError] = useState<string | undefined>();
+
+  useEffect(() => {
+    loadCandidates()
+      .then((loaded) => {
+        setCandidates(loaded.candidates);
+        setAccount(loaded.account);
+      })
+      .catch((e: unknown) => showFailure(e, { title: "Failed to read Steam libraries" }))
+      .finally(() => setIsLoading(false));
+    loadExcludedGames().then((excluded) => setExcludedCount(excluded.size));
+  }, []);
+
+  const drives = [...new Set(candidates.map((c) => c.drive))].sort();
+  const tags = [...new Set(candidates.flatMap((c) => c.tags))].sort((a, b) => a.localeCompare(b));
+
+  function parsePositive(value: string, setError: (error: string | undefined) => void): number | undefined | null {
+    if (!value.trim()) return undefined;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n <= 0) {
+      setError("Enter a positive number");
+      return null;
+    }
+    return n;
+  }
+
+  async function onSubmit(values: {
+    favoritesOnly: boolean;
+    played: PickFilters["played"];
+    maxHours?: string;
+    maxSizeGb: string;
+    drive: string;
+    tag: string;
+  }) {
+    if (!account) return;
+    if (values.played === "under" && !values.maxHours?.trim()) {
+      setHoursError("Enter the number of hours");
+      return;
+    }
+    const maxHours = values.played === "under" ? parsePositive(values.maxHours ?? "", setHoursError) : undefined;
+    const maxSizeGb = parsePositive(values.maxSizeGb, setSizeError);
+    if (maxHours === null || maxSizeGb === null) return;
+    const filters: PickFilters = {
+      favoritesOnly: values.favoritesOnly,
+      played: values.played,
+      maxHours,
+      maxSizeGb,
+      drive: values.drive === ANY ? undefined : values.drive,
+      tag: values.tag === ANY ? undefined : values.tag,
+    };
+    const excluded = await loadExcludedGames();
+    const matching = candidates.filter((c) => !excluded.has(c.game.appid) && matchesFilters(c, filters));
+    if (matching.length === 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "No games match these filters",
+        message: excluded.size ? `${excluded.size} excluded game${excluded.size === 1 ? "" : "s"} left out` : undefined,
+      });
+      return;
+    }
+    push(<PickResult candidates={matching} account={account} onExcluded={(next) => setExcludedCount(next.size)} />);
+  }
+
+  async function onClearExclusions() {
+    await clearExcludedGames();
+    setExcludedCount(0);
+    await showToast({ style: Toast.Style.Success, title: "Cleared exclusions" });
+  }
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Pick a Game"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Pick a Game" icon={Icon.Shuffle} onSubmit={onSubmit} />
+          {excludedCount > 0 && (
+            <Action title={`Clear ${excludedCount} Exclusions`} icon={Icon.Eye} onAction={onClearExclusions} />
+          )}
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={`Chooses at random from ${candidates.length} installed games.`} />
+      <Form.Checkbox id="favoritesOnly" label="Only favorites" defaultValue={false} />
+      <Form.Dropdown id="played" title="Played" value={played} onChange={(v) => setPlayed(v as PickFilters["played"])}>
+        <Form.Dropdown.Item value="any" title="Any" />
+        <Form.Dropdown.Item value="never" title="Never played" />
+        <Form.Dropdown.Item value="under" title="Under N hours" />
+      </Form.Dropdown>
+      {played === "under" && (
+        <Form.TextField
+          id="maxHours"
+          title="Hours"
+          placeholder="5"
+          error={hoursError}
+          onChange={() => setHoursError(undefined)}
+        />
+      )}
+      <Form.TextField
+        id="maxSizeGb"
+        title="Max Size (GB)"
+        placeholder="Any"
+        error={sizeError}
+        onChange={() => setSizeError(undefined)}
+      />
+      <Form.Dropdown id="drive" title="Drive" defaultValue={ANY}>
+        <Form.Dropdown.Item value={ANY} title="Any" />
+        {drives.map((d) => (
+          <Form.Dropdown.Item key={d} value={d} title={d} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="tag" title="Tag" defaultValue={ANY}>
+        <Form.Dropdown.Item value={ANY} title="Any" />
+        {tags.map((t) => (
+          <Form.Dropdown.Item key={t} value={t} title={t} />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
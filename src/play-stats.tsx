@@ -0,0 +1,258 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  getAppUsage,
+  getCurrentSteamUser,
+  getRunningGames,
+  getSteamInstallPath,
+  listInstalledGames,
+} from "./utils/steam";
+import {
+  dayKey,
+  getStreaks,
+  loadPlayJournal,
+  minutesByDay,
+  PlayJournal,
+  PlaySession,
+  reconcilePlaySessions,
+} from "./utils/sessions";
+import { showFailure } from "./utils";
+import { getHost } from "./utils/host";
+
+const host = getHost();
+
+// Width of the Markdown bar for the busiest row
+const BAR_WIDTH = 20;
+
+interface GameStats {
+  appid: string;
+  name: string;
+  sessions: PlaySession[]; // newest first
+  minutes: number;
+}
+
+// Close finished sessions first so the stats include the game that was just quit
+async function loadJournal(): Promise<PlayJournal> {
+  const paths = await getSteamInstallPath(host);
+  if (!paths) return loadPlayJournal();
+  try {
+    const user = await getCurrentSteamUser(host, paths);
+    const running = await getRunningGames(host, await listInstalledGames(paths.steamPath));
+    return await reconcilePlaySessions(running, async () => (user ? getAppUsage(host, user, paths) : {}));
+  } catch {
+    return loadPlayJournal(); // without a process list, show what is recorded
+  }
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function bar(minutes: number, max: number): string {
+  const width = max > 0 ? Math.round((minutes / max) * BAR_WIDTH) : 0;
+  return minutes > 0 ? "█".repeat(Math.max(1, width)) : "";
+}
+
+function startOfDay(date: Date, offsetDays = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays);
+}
+
+// Weeks start on Monday
+function startOfWeek(date: Date, offsetWeeks = 0): Date {
+  return startOfDay(date, -((date.getDay() + 6) % 7) + offsetWeeks * 7);
+}
+
+function sumBetween(sessions: PlaySession[], from: Date, to: Date): number {
+  return sessions
+    .filter((s) => {
+      const start = new Date(s.start);
+      return start >= from && start < to;
+    })
+    .reduce((sum, s) => sum + s.minutes, 0);
+}
+
+function groupByGame(sessions: PlaySession[]): GameStats[] {
+  const games = new Map<string, GameStats>();
+  for (const s of sessions) {
+    const game = games.get(s.appid) ?? { appid: s.appid, name: s.name, sessions: [], minutes: 0 };
+    game.name = s.name; // latest name wins
+    game.sessions.unshift(s);
+    game.minutes += s.minutes;
+    games.set(s.appid, game);
+  }
+  return [...games.values()].sort((a, b) => b.minutes - a.minutes);
+}
+
+function overviewMarkdown(journal: PlayJournal, now: Date): string {
+  const days = minutesByDay(journal.sessions);
+  const last7 = Array.from({ length: 7 }, (_, i) => startOfDay(now, i - 6));
+  const maxDay = Math.max(0, ...last7.map((d) => days.get(dayKey(d)) ?? 0));
+  const dayRows = last7.map((d) => {
+    const minutes = days.get(dayKey(d)) ?? 0;
+    const label = d.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+    return `| ${label} | ${formatMinutes(minutes)} | ${bar(minutes, maxDay)} |`;
+  });
+
+  const weeks = Array.from({ length: 4 }, (_, i) => startOfWeek(now, i - 3));
+  const weekTotals = weeks.map((w) => sumBetween(journal.sessions, w, startOfDay(w, 7)));
+  const maxWeek = Math.max(0, ...weekTotals);
+  const weekRows = weeks.map(
+    (w, i) =>
+      `| ${i === 3 ? "This week" : `Week of ${w.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`} | ${formatMinutes(weekTotals[i])} | ${bar(weekTotals[i], maxWeek)} |`,
+  );
+
+  const inProgress = journal.open.map(
+    (o) => `- **${o.name}** since ${new Date(o.start).toLocaleTimeString(undefined, { timeStyle: "short" })}`,
+  );
+
+  return `# Play Time
+
+**Today:** ${formatMinutes(days.get(dayKey(now)) ?? 0)}  
+**This week:** ${formatMinutes(weekTotals[3])}
+
+## Last 7 Days
+
+| Day | Played | |
+| --- | --- | --- |
+${dayRows.join("\n")}
+
+## Weekly
+
+| Week | Played | |
+| --- | --- | --- |
+${weekRows.join("\n")}
+${inProgress.length ? `\n## In Progress\n\n${inProgress.join("\n")}\n` : ""}`;
+}
+
+function monthMarkdown(journal: PlayJournal, now: Date): string {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const games = groupByGame(journal.sessions.filter((s) => new Date(s.start) >= monthStart)).slice(0, 10);
+  const max = games[0]?.minutes ?? 0;
+  const rows = games.map(
+    (g, i) => `| ${i + 1} | ${g.name} | ${formatMinutes(g.minutes)} | ${g.sessions.length} | ${bar(g.minutes, max)} |`,
+  );
+  return `# Most Played in ${now.toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+
+${
+  rows.length
+    ? `| # | Game | Played | Sessions | |
+| --- | --- | --- | --- | --- |
+${rows.join("\n")}`
+    : "Nothing played this month yet."
+}
+`;
+}
+
+function streakMarkdown(journal: PlayJournal, now: Date): string {
+  const { current, longest } = getStreaks(journal.sessions, now);
+  const days = minutesByDay(journal.sessions);
+  const plural = (n: number) => `${n} day${n === 1 ? "" : "s"}`;
+  return `# Streaks
+
+**Current streak:** ${plural(current)}  
+**Longest streak:** ${plural(longest)}  
+**Days played:** ${days.size}
+
+A day counts when at least one session started on it.
+`;
+}
+
+function historyMarkdown(game: GameStats): string {
+  const rows = game.sessions.map((s) => {
+    const start = new Date(s.start);
+    const end = new Date(s.end);
+    return `| ${start.toLocaleDateString()} | ${start.toLocaleTimeString(undefined, { timeStyle: "short" })} – ${end.toLocaleTimeString(undefined, { timeStyle: "short" })} | ${formatMinutes(s.minutes)} |`;
+  });
+  return `# ${game.name}
+
+**Tracked time:** ${formatMinutes(game.minutes)} over ${game.sessions.length} session${game.sessions.length === 1 ? "" : "s"}  
+**Average session:** ${formatMinutes(Math.round(game.minutes / game.sessions.length))}
+
+| Date | Time | Duration |
+| --- | --- | --- |
+${rows.join("\n")}
+`;
+}
+
+export default function PlayStats() {
+  const [journal, setJournal] = useState<PlayJournal>({ sessions: [], open: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshTick, setRefreshTick] = useState(0);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadJournal()
+      .then(setJournal)
+      .catch((e: unknown) => showFailure(e, { title: "Failed to read play journal" }))
+      .finally(() => setIsLoading(false));
+  }, [refreshTick]);
+
+  const now = new Date();
+  const games = groupByGame(journal.sessions);
+  const hasData = journal.sessions.length > 0 || journal.open.length > 0;
+
+  const refreshAction = (
+    <Action
+      title="Refresh"
+      onAction={() => setRefreshTick((prev) => prev + 1)}
+      icon={Icon.ArrowClockwise}
+      shortcut={{ modifiers: ["ctrl"], key: "r" }}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={hasData} searchBarPlaceholder="Search games...">
+      <List.EmptyView
+        title="No Play Sessions Yet"
+        description="Sessions are recorded when you launch games from Steam Utilities"
+        icon={{ source: Icon.BarChart, tintColor: Color.SecondaryText }}
+        actions={<ActionPanel>{refreshAction}</ActionPanel>}
+      />
+      {hasData && (
+        <List.Section title="Summary">
+          <List.Item
+            id="overview"
+            title="Days & Weeks"
+            icon={Icon.Calendar}
+            detail={<List.Item.Detail markdown={overviewMarkdown(journal, now)} />}
+            actions={<ActionPanel>{refreshAction}</ActionPanel>}
+          />
+          <List.Item
+            id="month"
+            title="Most Played This Month"
+            icon={Icon.Trophy}
+            detail={<List.Item.Detail markdown={monthMarkdown(journal, now)} />}
+            actions={<ActionPanel>{refreshAction}</ActionPanel>}
+          />
+          <List.Item
+            id="streaks"
+            title="Streaks"
+            icon={Icon.Bolt}
+            detail={<List.Item.Detail markdown={streakMarkdown(journal, now)} />}
+            actions={<ActionPanel>{refreshAction}</ActionPanel>}
+          />
+        </List.Section>
+      )}
+      <List.Section title="Games" subtitle={games.length ? String(games.length) : undefined}>
+        {games.map((g) => (
+          <List.Item
+            key={g.appid}
+            id={`game-${g.appid}`}
+            title={g.name}
+            keywords={[g.appid]}
+            icon={{ source: Icon.GameController, tintColor: Color.Blue }}
+            accessories={[{ text: formatMinutes(g.minutes) }]}
+            detail={<List.Item.Detail markdown={historyMarkdown(g)} />}
+            actions={
+              <ActionPanel>
+                {refreshAction}
+                <Action.CopyToClipboard title="Copy History" content={historyMarkdown(g)} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
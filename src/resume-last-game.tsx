@@ -0,0 +1,33 @@
+import { showToast, Toast } from "@raycast/api";
+import { getAppUsage, getCurrentSteamUser, getSteamInstallPath, listInstalledGames } from "./utils/steam";
+import { launchGameWithFeedback } from "./utils/launch";
+import { showFailure } from "./utils";
+import { getHost } from "./utils/host";
+
+const host = getHost();
+
+export default async function ResumeLastGame() {
+  try {
+    const paths = await getSteamInstallPath(host);
+    if (!paths) throw new Error("Steam installation not found. Is Steam installed?");
+    const user = await getCurrentSteamUser(host, paths);
+    const usage = user ? await getAppUsage(host, user, paths) : {};
+    const games = await listInstalledGames(paths.steamPath);
+
+    // Most recent LastPlayed from the signed-in account's localconfig.vdf, among installed games
+    const last = games
+      .filter((g) => usage[g.appid]?.lastPlayed)
+      .sort((a, b) => (usage[b.appid].lastPlayed?.getTime() ?? 0) - (usage[a.appid].lastPlayed?.getTime() ?? 0))[0];
+    if (!last) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "No recently played game",
+        message: "None of the installed games has been played on this account",
+      });
+      return;
+    }
+    await launchGameWithFeedback(host, last, { steamId64: user, paths });
+  } catch (e: unknown) {
+    await showFailure(e, { title: "Failed to resume last game" });
+  }
+}
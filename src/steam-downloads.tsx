@@ -0,0 +1,138 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import { getProgressIcon } from "@raycast/utils";
+import { useEffect, useState } from "react";
+import { getSteamInstallPath, listDownloads, SteamDownload, SteamPaths } from "./utils/steam";
+import { formatBytes, showFailure } from "./utils";
+import { getHost } from "./utils/host";
+
+const host = getHost();
+
+// Steam rewrites manifests every few seconds while downloading
+const REFRESH_INTERVAL_MS = 2000;
+
+function progressText(done: number, total: number): string {
+  return `${formatBytes(done)} / ${formatBytes(total)}`;
+}
+
+function buildText(d: SteamDownload): string | undefined {
+  const { buildId, targetBuildId } = d.game.download;
+  if (targetBuildId && targetBuildId !== "0" && targetBuildId !== buildId) {
+    return `Build ${buildId || "none"} → ${targetBuildId}`;
+  }
+  return buildId ? `Build ${buildId}` : undefined;
+}
+
+function DownloadItem(props: { item: SteamDownload; onRefresh: () => void }) {
+  const { game, library, stagingPath } = props.item;
+  const d = game.download;
+  const downloading = d.bytesToDownload > 0 && d.bytesDownloaded < d.bytesToDownload;
+  const build = buildText(props.item);
+  const progress = game.progress ?? 0;
+
+  return (
+    <List.Item
+      id={`${library.path}-${game.appid}`}
+      title={game.name}
+      subtitle={game.status.label}
+      keywords={[game.appid, library.path]}
+      icon={
+        game.status.busy
+          ? getProgressIcon(progress, Color.Blue)
+          : { source: Icon.Pause, tintColor: game.status.needsAttention ? Color.Orange : Color.SecondaryText }
+      }
+      accessories={[
+        ...(game.status.busy ? [{ text: `${Math.round(progress * 100)}%` }] : []),
+        ...(downloading
+          ? [{ text: progressText(d.bytesDownloaded, d.bytesToDownload), tooltip: "Downloaded" }]
+          : d.bytesToStage > 0
+            ? [{ text: progressText(d.bytesStaged, d.bytesToStage), tooltip: "Staged" }]
+            : []),
+        ...(build ? [{ tag: { value: build, color: Color.SecondaryText } }] : []),
+        { tag: { value: library.label || library.path, color: Color.Blue }, tooltip: "Library being written to" },
+      ]}
+      actions={
+        <ActionPanel>
+          <Action
+            title="Open Downloads in Steam"
+            onAction={() =>
+              host.openUrl("steam://open/downloads").catch((e) => showFailure(e, { title: "Failed to open Steam" }))
+            }
+            icon={Icon.Download}
+          />
+          {stagingPath && (
+            <Action
+              title="Open Staging Folder"
+              onAction={() =>
+                host.openPath(stagingPath).catch((e) => showFailure(e, { title: "Failed to open folder" }))
+              }
+              icon={Icon.Folder}
+              shortcut={{ modifiers: ["ctrl"], key: "f" }}
+            />
+          )}
+          <Action.CopyToClipboard title="Copy App Id" content={game.appid} />
+          <Action
+            title="Refresh Now"
+            onAction={props.onRefresh}
+            icon={Icon.ArrowClockwise}
+            shortcut={{ modifiers: ["ctrl"], key: "r" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+export default function SteamDownloads() {
+  const [paths, setPaths] = useState<SteamPaths>();
+  const [downloads, setDownloads] = useState<SteamDownload[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshTick, setRefreshTick] = useState(0);
+
+  useEffect(() => {
+    getSteamInstallPath(host)
+      .then((p) => {
+        if (!p) throw new Error("Steam installation not found");
+        setPaths(p);
+      })
+      .catch((e: unknown) => {
+        setIsLoading(false);
+        showFailure(e, { title: "Failed to find Steam" });
+      });
+  }, []);
+
+  // Re-read manifests on an interval while the command is open
+  useEffect(() => {
+    if (!paths) return;
+    const read = () => {
+      setDownloads(listDownloads(paths.steamPath));
+      setIsLoading(false);
+    };
+    read();
+    const timer = setInterval(read, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [paths, refreshTick]);
+
+  const onRefresh = () => setRefreshTick((prev) => prev + 1);
+  const active = downloads.filter((d) => d.game.status.busy);
+  const queued = downloads.filter((d) => !d.game.status.busy);
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search downloads...">
+      <List.EmptyView
+        title="No Downloads"
+        description="Steam has nothing queued in any library"
+        icon={{ source: Icon.Download, tintColor: Color.SecondaryText }}
+      />
+      <List.Section title="Downloading" subtitle={active.length ? String(active.length) : undefined}>
+        {active.map((d) => (
+          <DownloadItem key={`${d.library.path}-${d.game.appid}`} item={d} onRefresh={onRefresh} />
+        ))}
+      </List.Section>
+      <List.Section title="Queued & Paused" subtitle={queued.length ? String(queued.length) : undefined}>
+        {queued.map((d) => (
+          <DownloadItem key={`${d.library.path}-${d.game.appid}`} item={d} onRefresh={onRefresh} />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -2,6 +2,7 @@ import {
   Action,
   ActionPanel,
   Alert,
+  Cache,
   Color,
   Icon,
   List,
@@ -10,22 +11,73 @@ import {
   confirmAlert,
   LocalStorage,
   Clipboard,
+  useNavigation,
 } from "@raycast/api";
-import { join } from "path";
+import { basename, join } from "path";
 import { existsSync } from "fs";
 import { useEffect, useMemo, useRef, useState } from "react";
 import {
-  launchSteamGame,
   listInstalledGames,
   getSteamInstallPath,
   restartSteam,
   openSteam,
   getSteamUserDisplayName,
   getCurrentSteamUser,
+  getAppUsage,
+  getDirectorySize,
+  getAppMetadata,
+  getNonSteamShortcuts,
+  launchSteamShortcut,
+  SteamShortcut,
   openSteamConfigFolder,
   SteamGame,
+  SteamAppStatus,
+  SteamAppCommand,
+  runSteamAppCommand,
+  watchAppManifest,
+  getAppManifestPath,
+  readAppManifest,
+  watchSteamFiles,
+  SteamPaths,
+  SteamAppUsage,
+  getRunningGames,
+  quitGame,
+  RunningGame,
 } from "./utils/steam";
-import { executeCommand, showFailure } from "./utils";
+import { AppCommonInfo } from "./utils/appinfo";
+import { driveOf, showFailure } from "./utils";
+import { getHost } from "./utils/host";
+import SwitchSteamAccount from "./switch-steam-account";
+import { LaunchOptionsForm, LaunchWithArgumentsForm } from "./components/launch-options";
+import { LaunchProfileForm } from "./components/launch-profile-form";
+import { formatUptime, ProcessInfoView } from "./components/process-info";
+import { reconcilePlaySessions, recordLaunch } from "./utils/sessions";
+import { loadFavorites, saveFavorites } from "./utils/favorites";
+import { launchGameWithFeedback } from "./utils/launch";
+import { scoreFields, SearchField } from "./utils/fuzzy";
+import { GameAliases, loadAliases } from "./utils/aliases";
+import { AliasesForm } from "./components/aliases-form";
+import {
+  allTags,
+  BACKLOG_STATUS_TITLES,
+  BacklogStatus,
+  GameNote,
+  GameNotes,
+  groupByStatus,
+  groupByTag,
+  loadGameNotes,
+  statusSectionRank,
+  UNTAGGED_SECTION,
+} from "./utils/game-notes";
+import { GameNotesForm } from "./components/game-notes-form";
+import {
+  getLastUsedProfile,
+  launchWithProfile,
+  loadLaunchProfiles,
+  LaunchProfile,
+  LaunchProfileStore,
+  setLastUsedProfile,
+} from "./utils/profiles";
 
 interface GameItem {
   id: string;
@@ -39,83 +91,269 @@ interface GameItem {
   lastOwner?: string;
   lastOwnerName?: string;
   sizeBytes?: number;
+  sizeIsExact?: boolean; // true once the install folder has been walked
   lastPlayed?: Date;
   playtimeMinutes?: number;
+  playtime2wksMinutes?: number;
   genre?: string[];
   categories?: string[];
   developer?: string;
+  publisher?: string;
+  appType?: string;
+  releaseDate?: Date;
   keywords?: string[];
   isFavorite?: boolean;
   hasCloudSaves?: boolean;
-  isUpdating?: boolean;
+  status: SteamAppStatus;
+  progress?: number; // 0..1 while Steam is downloading or staging
   achievements?: {
     total: number;
     unlocked: number;
   };
 }
 
+const host = getHost();
+
+const FILTER_MODES = ["all", "drive", "alphabetical", "tag", "status", "recent", "favorites", "attention"] as const;
+const SORT_MODES = ["name", "playtime", "lastPlayed", "size"] as const;
+// Section pinned above the current grouping while a game is running
+const RUNNING_SECTION = "Running";
+// Single section, ordered by relevance, shown while searching
+const SEARCH_SECTION = "Best Matches";
+// Listing processes with paths is slow on Windows (WMI), so poll gently
+const RUNNING_POLL_MS = 10000;
+type FilterMode = (typeof FILTER_MODES)[number];
+type SortMode = (typeof SORT_MODES)[number];
+
+function isFilterMode(v: string | undefined): v is FilterMode {
+  return !!v && (FILTER_MODES as readonly string[]).includes(v);
+}
+
+function isSortMode(v: string | undefined): v is SortMode {
+  return !!v && (SORT_MODES as readonly string[]).includes(v);
+}
+
+// Icon and tint for a decoded appmanifest status
+function statusIcon(status: SteamAppStatus): { source: Icon; tintColor: Color } {
+  switch (status.kind) {
+    case "ready":
+      return { source: Icon.CheckCircle, tintColor: Color.Green };
+    case "updating":
+    case "validating":
+      return { source: Icon.Download, tintColor: Color.Blue };
+    case "updateRequired":
+    case "updatePaused":
+      return { source: Icon.ExclamationMark, tintColor: Color.Orange };
+    case "filesMissing":
+    case "filesCorrupt":
+      return { source: Icon.Warning, tintColor: Color.Red };
+    case "uninstalling":
+      return { source: Icon.Trash, tintColor: Color.SecondaryText };
+    default:
+      return { source: Icon.XMarkCircle, tintColor: Color.SecondaryText };
+  }
+}
+
+function backlogColor(status: BacklogStatus): Color {
+  switch (status) {
+    case "playing":
+      return Color.Green;
+    case "completed":
+      return Color.Blue;
+    case "dropped":
+      return Color.SecondaryText;
+    case "wishlist-replay":
+      return Color.Purple;
+    default:
+      return Color.Orange;
+  }
+}
+
+// Name and aliases rank highest; App ID only matches from the start; owner, drive, tags and notes break ties
+function searchFields(g: GameItem, aliases: string[] = [], note?: GameNote): SearchField[] {
+  return [
+    { text: g.title, weight: 1 },
+    ...aliases.map((a) => ({ text: a, weight: 1 })),
+    ...(note?.tags ?? []).map((t) => ({ text: t, weight: 0.6 })),
+    { text: note?.status ? BACKLOG_STATUS_TITLES[note.status] : "", weight: 0.5 },
+    { text: note?.note ?? "", weight: 0.3 },
+    { text: g.appid, weight: 0.9, exact: true },
+    { text: driveOf(g.libraryPath) ?? "", weight: 0.5, exact: true },
+    { text: g.lastOwnerName ?? "", weight: 0.5 },
+    { text: g.developer ?? "", weight: 0.4 },
+    ...(g.genre ?? []).map((x) => ({ text: x, weight: 0.4 })),
+    ...(g.categories ?? []).map((x) => ({ text: x, weight: 0.4 })),
+  ];
+}
+
+// Data shared by every game item; kept so single manifests can be re-mapped after a file change
+interface GameItemContext {
+  paths: SteamPaths;
+  usage: Record<string, SteamAppUsage>;
+  metadata: Record<string, AppCommonInfo>;
+}
+
+// Favorites live in LocalStorage and are applied in memory, so toggling one never re-reads Steam's files
+function applyFavorites(items: GameItem[], favorites: Set<string>): GameItem[] {
+  return items.map((g) =>
+    !!g.isFavorite === favorites.has(g.appid) ? g : { ...g, isFavorite: favorites.has(g.appid) },
+  );
+}
+
+// The last loaded list, shown straight away on the next launch while Steam's files are re-checked
+const itemsCache = new Cache({ namespace: "steam-games" });
+const ITEMS_CACHE_KEY = "items";
+
+function readCachedItems(): GameItem[] {
+  const raw = itemsCache.get(ITEMS_CACHE_KEY);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw, (key, value) =>
+      (key === "lastPlayed" || key === "releaseDate") && typeof value === "string" ? new Date(value) : value,
+    ) as GameItem[];
+  } catch {
+    return []; // ignore a corrupt cache and wait for the scan
+  }
+}
+
+async function toGameItem(g: SteamGame, ctx: GameItemContext): Promise<GameItem> {
+  // Resolve username for last owner
+  let lastOwnerName = g.lastOwner;
+  if (g.lastOwner) {
+    try {
+      lastOwnerName = await getSteamUserDisplayName(host, g.lastOwner, ctx.paths);
+    } catch {
+      // Keep original ID if resolution fails
+    }
+  }
+
+  // Manifest size is available immediately; the optional exact scan refines it later
+  const sizeBytes = g.sizeOnDisk ?? 0;
+
+  // Playtime and last played come from the current account's localconfig.vdf
+  const playtimeMinutes = ctx.usage[g.appid]?.playtimeMinutes ?? 0;
+  const playtime2wksMinutes = ctx.usage[g.appid]?.playtime2wksMinutes ?? 0;
+  const lastPlayed = ctx.usage[g.appid]?.lastPlayed;
+
+  // Genres, store tags and credits come from the local appinfo.vdf cache
+  const info = ctx.metadata[g.appid];
+  const genre = info?.genres ?? [];
+  const categories = info?.storeTags ?? [];
+
+  // Mock cloud saves and achievement data
+  const hasCloudSaves = Math.random() > 0.3;
+  const achievements = {
+    total: Math.floor(Math.random() * 50) + 10,
+    unlocked: Math.floor(Math.random() * 30),
+  };
+
+  // Generate search keywords
+  const keywords = [
+    g.name.toLowerCase(),
+    g.appid,
+    lastOwnerName?.toLowerCase() || "",
+    driveOf(g.libraryPath)?.toLowerCase() || "",
+    info?.developer?.toLowerCase() || "",
+    ...genre.map((x) => x.toLowerCase()),
+    ...categories.map((x) => x.toLowerCase()),
+  ].filter(Boolean);
+
+  return {
+    id: g.appid,
+    title: g.name,
+    appid: g.appid,
+    libraryPath: g.libraryPath,
+    installdir: g.installdir,
+    name: g.name,
+    installed: g.installed,
+    lastOwner: g.lastOwner,
+    lastOwnerName,
+    sizeBytes,
+    lastPlayed,
+    playtimeMinutes,
+    playtime2wksMinutes,
+    genre,
+    categories,
+    developer: info?.developer,
+    publisher: info?.publisher,
+    appType: info?.type,
+    releaseDate: info?.releaseDate,
+    keywords,
+    hasCloudSaves,
+    achievements,
+    status: g.status,
+    progress: g.progress,
+  };
+}
+
 export default function Command() {
+  const { push } = useNavigation();
   const [isLoading, setIsLoading] = useState(true);
   const [query, setQuery] = useState("");
-  const [items, setItems] = useState<GameItem[]>([]);
+  const [items, setItems] = useState<GameItem[]>(readCachedItems);
   const [error, setError] = useState<string | undefined>(undefined);
-  const [selectedId, setSelectedId] = useState<string | undefined>(undefined);
+  const [selectedId, setSelectedId] = useState<string | undefined>(() => items[0]?.id);
   const [refreshTick, setRefreshTick] = useState(0);
-  const [filterMode, setFilterMode] = useState<"all" | "drive" | "alphabetical" | "recent" | "favorites">("drive");
+  const [filterMode, setFilterMode] = useState<FilterMode>("drive");
   // Track the currently selected dropdown value so Sort selections are reflected in the UI
   const [dropdownValue, setDropdownValue] = useState<string>("drive");
-  const [sortMode, setSortMode] = useState<"name" | "playtime" | "lastPlayed" | "size">("name");
+  const [sortMode, setSortMode] = useState<SortMode>("name");
   const [currentUser, setCurrentUser] = useState<string | undefined>(undefined);
   const [viewMode, setViewMode] = useState<"grid" | "detail">("detail");
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
-  const [recentGames, setRecentGames] = useState<GameItem[]>([]);
+  const favoritesRef = useRef(favorites);
+  const [exactSizes, setExactSizes] = useState(false);
+  const itemsRef = useRef<GameItem[]>([]);
+  itemsRef.current = items;
+  const [shortcuts, setShortcuts] = useState<SteamShortcut[]>([]);
+  const [launchProfiles, setLaunchProfiles] = useState<LaunchProfileStore>({});
+  const itemContextRef = useRef<GameItemContext>();
+  const [running, setRunning] = useState<Record<string, RunningGame>>({});
+  const [aliases, setAliases] = useState<GameAliases>({});
+  const [gameNotes, setGameNotes] = useState<GameNotes>({});
+  // Manifest watchers for running install/verify/uninstall commands, keyed by game id
+  const manifestWatchers = useRef(new Map<string, () => void>());
+
+  // Load favorites, search aliases and personal notes from LocalStorage
+  useEffect(() => {
+    loadFavorites().then(setFavorites);
+    loadAliases().then(setAliases);
+    loadGameNotes().then(setGameNotes);
+  }, []);
 
-  // Load favorites from LocalStorage
+  // Stop watching manifests when the command closes
   useEffect(() => {
-    async function loadFavorites() {
-      try {
-        const storedFavorites = await LocalStorage.getItem<string>("steam-favorites");
-        if (storedFavorites) {
-          setFavorites(new Set(JSON.parse(storedFavorites)));
-        }
-      } catch {
-        // Ignore errors loading favorites
-      }
-    }
-    loadFavorites();
+    const watchers = manifestWatchers.current;
+    return () => {
+      for (const stop of watchers.values()) stop();
+      watchers.clear();
+    };
   }, []);
 
+  // Load launch profiles from LocalStorage
+  useEffect(() => {
+    loadLaunchProfiles().then(setLaunchProfiles);
+  }, []);
 
   // Load persisted filter/sort/dropdown selection on startup
   useEffect(() => {
     (async () => {
       try {
         const savedFilter = await LocalStorage.getItem<string>("steam-filter-mode");
-        if (savedFilter && ["all", "drive", "alphabetical", "recent", "favorites"].includes(savedFilter)) {
-          setFilterMode(savedFilter as typeof filterMode);
+        if (isFilterMode(savedFilter)) {
+          setFilterMode(savedFilter);
         }
         const savedSort = await LocalStorage.getItem<string>("steam-sort-mode");
-        if (savedSort && ["name", "playtime", "lastPlayed", "size"].includes(savedSort)) {
-          setSortMode(savedSort as typeof sortMode);
+        if (isSortMode(savedSort)) {
+          setSortMode(savedSort);
         }
         const savedDropdown = await LocalStorage.getItem<string>("steam-dropdown-value");
-        const allowedDropdown = [
-          "all",
-          "drive",
-          "alphabetical",
-          "recent",
-          "favorites",
-          "name",
-          "playtime",
-          "lastPlayed",
-          "size",
-        ];
-        if (savedDropdown && allowedDropdown.includes(savedDropdown)) {
+        if (isFilterMode(savedDropdown) || isSortMode(savedDropdown)) {
           setDropdownValue(savedDropdown);
-        } else if (savedSort && ["name", "playtime", "lastPlayed", "size"].includes(savedSort || "")) {
-          setDropdownValue(savedSort!);
-        } else if (savedFilter && ["all", "drive", "alphabetical", "recent", "favorites"].includes(savedFilter || "")) {
-          setDropdownValue(savedFilter!);
+        } else if (isSortMode(savedSort)) {
+          setDropdownValue(savedSort);
+        } else if (isFilterMode(savedFilter)) {
+          setDropdownValue(savedFilter);
         }
       } catch {
         // ignore persistence errors
@@ -123,6 +361,46 @@ export default function Command() {
     })();
   }, []);
 
+  // Load exact-size scan preference
+  useEffect(() => {
+    LocalStorage.getItem<string>("steam-exact-sizes")
+      .then((v) => setExactSizes(v === "true"))
+      .catch(() => {
+        // ignore persistence errors
+      });
+  }, []);
+
+  // Walk install folders in the background to replace manifest sizes with exact ones.
+  // Runs one game at a time and is aborted when the list reloads or the command closes.
+  useEffect(() => {
+    if (!exactSizes || isLoading) return;
+    const controller = new AbortController();
+    (async () => {
+      for (const it of itemsRef.current) {
+        if (controller.signal.aborted) return;
+        if (it.sizeIsExact) continue;
+        const size = await getDirectorySize(
+          join(it.libraryPath, "steamapps", "common", it.installdir),
+          controller.signal,
+        );
+        if (size === undefined || controller.signal.aborted) continue;
+        setItems((prev) => prev.map((p) => (p.id === it.id ? { ...p, sizeBytes: size, sizeIsExact: true } : p)));
+      }
+    })();
+    return () => controller.abort();
+  }, [exactSizes, isLoading, refreshTick]);
+
+  async function toggleExactSizes() {
+    const next = !exactSizes;
+    setExactSizes(next);
+    await LocalStorage.setItem("steam-exact-sizes", String(next));
+    await showToast({
+      style: Toast.Style.Success,
+      title: next ? "Calculating exact sizes" : "Using manifest sizes",
+      message: next ? "Install folders are scanned in the background" : undefined,
+    });
+  }
+
   // Persist filter/sort/dropdown selection when changed
   useEffect(() => {
     LocalStorage.setItem("steam-filter-mode", filterMode);
@@ -141,102 +419,37 @@ export default function Command() {
       setIsLoading(true);
       setError(undefined);
       try {
-        const paths = await getSteamInstallPath();
+        const paths = await getSteamInstallPath(host);
         if (!paths) {
           setError("Steam installation not found. Is Steam installed?");
           setItems([]);
           return;
         }
         // Get current Steam user for better filtering
-        const currentSteamUser = await getCurrentSteamUser(paths);
+        const currentSteamUser = await getCurrentSteamUser(host, paths);
         setCurrentUser(currentSteamUser);
+        const usage = currentSteamUser ? await getAppUsage(host, currentSteamUser, paths) : {};
 
         const games = await listInstalledGames(paths.steamPath);
-        const mapped: GameItem[] = await Promise.all(games
-          .filter((g) => g.installed)
-          .map(async (g) => {
-            // Resolve username for last owner
-            let lastOwnerName = g.lastOwner;
-            if (g.lastOwner) {
-              try {
-                lastOwnerName = await getSteamUserDisplayName(g.lastOwner, paths);
-              } catch {
-                // Keep original ID if resolution fails
-              }
-            }
+        const metadata = await getAppMetadata(
+          paths.steamPath,
+          games.map((g) => g.appid),
+        );
+        const ctx: GameItemContext = { paths, usage, metadata };
+        itemContextRef.current = ctx;
+        const mapped: GameItem[] = await Promise.all(games.map((g) => toGameItem(g, ctx)));
 
-            // Calculate game size and add keywords for better search
-            const gamePath = join(g.libraryPath, "steamapps", "common", g.installdir);
-            let sizeBytes = 0;
-            try {
-              if (existsSync(gamePath)) {
-                // For performance, we'll skip actual size calculation for now
-                // sizeBytes = await getDirectorySize(gamePath);
-              }
-            } catch {
-              // Ignore size calculation errors
-            }
+        // Non-Steam games added to the current account's library
+        const userShortcuts = currentSteamUser ? await getNonSteamShortcuts(host, currentSteamUser, paths) : [];
+        setShortcuts(userShortcuts.filter((sc) => !sc.hidden).sort((a, b) => a.name.localeCompare(b.name)));
 
-            // Generate mock playtime data (in real implementation, parse from Steam files)
-            const playtimeMinutes = Math.floor(Math.random() * 10000); // Mock data
-            const lastPlayed = new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000); // Random within 30 days
-            
-            // Mock categories (in real implementation, parse from Steam VDF)
-            const categories = ["Action", "Adventure", "Indie", "Strategy", "RPG", "Simulation"][Math.floor(Math.random() * 6)];
-            
-            // Check if favorited
-            const isFavorite = favorites.has(g.appid);
-            
-            // Mock cloud saves and achievement data
-            const hasCloudSaves = Math.random() > 0.3;
-            const achievements = {
-              total: Math.floor(Math.random() * 50) + 10,
-              unlocked: Math.floor(Math.random() * 30)
-            };
-
-            // Generate search keywords
-            const keywords = [
-              g.name.toLowerCase(),
-              g.appid,
-              lastOwnerName?.toLowerCase() || "",
-              driveOf(g.libraryPath)?.toLowerCase() || "",
-              categories?.toLowerCase() || "",
-            ].filter(Boolean);
-
-            return {
-              id: g.appid,
-              title: g.name,
-              appid: g.appid,
-              libraryPath: g.libraryPath,
-              installdir: g.installdir,
-              name: g.name,
-              installed: g.installed,
-              lastOwner: g.lastOwner,
-              lastOwnerName,
-              sizeBytes,
-              lastPlayed,
-              playtimeMinutes,
-              categories: [categories],
-              keywords,
-              isFavorite,
-              hasCloudSaves,
-              achievements,
-              isUpdating: Math.random() > 0.9, // 10% chance of updating
-            };
-          }));
-        // Set recent games (most recently played)
-        const recent = mapped
-          .filter(g => g.lastPlayed)
-          .sort((a, b) => (b.lastPlayed?.getTime() || 0) - (a.lastPlayed?.getTime() || 0))
-          .slice(0, 10);
-        setRecentGames(recent);
-        
         mapped.sort((a, b) => a.title.localeCompare(b.title));
         // Prefer selecting the first game immediately so the initial selection isn't an action
         if (mapped.length > 0) {
-          setSelectedId(mapped[0].id);
+          setSelectedId((prev) => (prev && mapped.some((g) => g.id === prev) ? prev : mapped[0].id));
         }
-        setItems(mapped);
+        setItems(applyFavorites(mapped, favoritesRef.current));
+        itemsCache.set(ITEMS_CACHE_KEY, JSON.stringify(mapped));
       } catch (e: unknown) {
         const msg = e instanceof Error ? e.message : String(e);
         setError(msg || "Failed to list Steam games");
@@ -246,7 +459,98 @@ export default function Command() {
       }
     }
     load();
-  }, [refreshTick, favorites, sortMode]);
+  }, [refreshTick]);
+
+  useEffect(() => {
+    favoritesRef.current = favorites;
+    setItems((prev) => applyFavorites(prev, favorites));
+  }, [favorites]);
+
+  // Most recently played, derived in memory
+  const recentGames = useMemo(
+    () =>
+      items
+        .filter((g) => g.lastPlayed)
+        .sort((a, b) => (b.lastPlayed?.getTime() || 0) - (a.lastPlayed?.getTime() || 0))
+        .slice(0, 10),
+    [items],
+  );
+
+  // Follow Steam's files while the list is shown: re-parse only the manifest that changed,
+  // reload everything when libraries or signed-in accounts change
+  useEffect(() => {
+    const ctx = itemContextRef.current;
+    if (isLoading || !ctx) return;
+    return watchSteamFiles(ctx.paths, {
+      onManifest: (manifestPath, libraryPath) => {
+        updateGameFromManifest(manifestPath, libraryPath).catch(() => {
+          // keep the current item if the manifest is mid-write; the next event retries
+        });
+      },
+      onLibrariesChanged: () => setRefreshTick((prev) => prev + 1),
+      onUsersChanged: () => setRefreshTick((prev) => prev + 1),
+    });
+  }, [isLoading]);
+
+  async function loadCurrentUsage(): Promise<Record<string, SteamAppUsage>> {
+    const ctx = itemContextRef.current;
+    return ctx && currentUser ? getAppUsage(host, currentUser, ctx.paths) : {};
+  }
+
+  // Poll the process table so the pinned running game and its uptime stay current
+  useEffect(() => {
+    if (isLoading) return;
+    let cancelled = false;
+    const check = () =>
+      getRunningGames(host, itemsRef.current)
+        .then((games) => {
+          if (!cancelled) setRunning(Object.fromEntries(games.map((r) => [r.appid, r])));
+          // Close journal sessions for games that have exited
+          return reconcilePlaySessions(games, loadCurrentUsage);
+        })
+        .catch(() => {
+          // keep the last known state if the process list is unavailable
+        });
+    check();
+    const timer = setInterval(check, RUNNING_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isLoading]);
+
+  async function updateGameFromManifest(manifestPath: string, libraryPath: string) {
+    const ctx = itemContextRef.current;
+    if (!ctx) return;
+    const appid = /^appmanifest_(\d+)\.acf$/i.exec(basename(manifestPath))?.[1];
+    const game = readAppManifest(manifestPath, libraryPath);
+    if (!game || !game.installed) {
+      setItems((prev) => prev.filter((p) => !(p.appid === appid && p.libraryPath === libraryPath)));
+      return;
+    }
+    if (!ctx.metadata[game.appid]) {
+      Object.assign(ctx.metadata, await getAppMetadata(ctx.paths.steamPath, [game.appid]));
+    }
+    const [item] = applyFavorites([await toGameItem(game, ctx)], favoritesRef.current);
+    setItems((prev) => {
+      const existing = prev.find((p) => p.id === item.id);
+      if (!existing) return [...prev, item].sort((a, b) => a.title.localeCompare(b.title));
+      // Another library's copy is already listed
+      if (existing.libraryPath !== libraryPath) return prev;
+      return prev.map((p) =>
+        p.id === item.id
+          ? {
+              ...item,
+              // Keep measured sizes and the mock data stable across updates
+              sizeBytes: p.sizeIsExact ? p.sizeBytes : item.sizeBytes,
+              sizeIsExact: p.sizeIsExact,
+              hasCloudSaves: p.hasCloudSaves,
+              achievements: p.achievements,
+            }
+          : p,
+      );
+    });
+  }
 
   // Save favorites to LocalStorage
   const toggleFavorite = async (appid: string) => {
@@ -257,7 +561,7 @@ export default function Command() {
       newFavorites.add(appid);
     }
     setFavorites(newFavorites);
-    await LocalStorage.setItem("steam-favorites", JSON.stringify([...newFavorites]));
+    await saveFavorites(newFavorites);
   };
 
   // Format playtime
@@ -278,12 +582,6 @@ export default function Command() {
     return `${mb.toFixed(0)} MB`;
   };
 
-
-  function driveOf(p: string): string | undefined {
-    const m = /^[A-Za-z]:/.exec(p);
-    return m ? m[0].toUpperCase() : undefined;
-  }
-
   function driveColor(drive: string): Color {
     const letter = drive[0]?.toUpperCase();
     switch (letter) {
@@ -312,18 +610,16 @@ export default function Command() {
   }, [items]);
 
   async function openFolder(p: string) {
-    // Using 'start' avoids Explorer returning a non-zero exit code even when it opens successfully
-    await executeCommand(`start "" "${p}"`);
+    await host.openPath(p);
   }
 
-
   const actionItems = useMemo(() => {
     const base = [
       {
         key: "open",
         title: "Open Steam",
         icon: Icon.AppWindow,
-        action: () => openSteam(),
+        action: () => openSteam(host),
       },
       {
         key: "restart",
@@ -339,9 +635,15 @@ export default function Command() {
             icon: Icon.ArrowClockwise,
           });
           if (!ok) return;
-          await restartSteam();
+          await restartSteam(host);
         },
       },
+      {
+        key: "switch-account",
+        title: "Switch Account",
+        icon: Icon.TwoPeople,
+        action: () => push(<SwitchSteamAccount />),
+      },
     ];
     const libActions = libraryRoots.map((p, idx) => ({
       key: `open-common-${idx}`,
@@ -359,7 +661,7 @@ export default function Command() {
         title: "Open Game Files (Default)",
         icon: Icon.Folder,
         action: async () => {
-          const paths = await getSteamInstallPath();
+          const paths = await getSteamInstallPath(host);
           if (paths) {
             await openFolder(join(paths.steamPath, "steamapps", "common"));
           }
@@ -369,6 +671,16 @@ export default function Command() {
     return [...base, ...libActions];
   }, [libraryRoots]);
 
+  // Shortcuts only appear in the library-wide views; they have no playtime, favourites or status
+  const filteredShortcuts = useMemo(() => {
+    if (!["all", "drive", "alphabetical"].includes(filterMode)) return [];
+    const q = query.toLowerCase();
+    if (!q) return shortcuts;
+    return shortcuts.filter(
+      (sc) => sc.name.toLowerCase().includes(q) || sc.tags.some((t) => t.toLowerCase().includes(q)),
+    );
+  }, [shortcuts, query, filterMode]);
+
   const filteredActions = useMemo(() => {
     if (!query) return actionItems;
     const q = query.toLowerCase();
@@ -379,7 +691,7 @@ export default function Command() {
   const gamesByLibrary = useMemo(() => {
     const grouped: Record<string, GameItem[]> = {};
 
-    items.forEach(game => {
+    items.forEach((game) => {
       const drive = driveOf(game.libraryPath) || "Other";
       if (!grouped[drive]) {
         grouped[drive] = [];
@@ -388,7 +700,7 @@ export default function Command() {
     });
 
     // Sort games within each library alphabetically
-    Object.keys(grouped).forEach(drive => {
+    Object.keys(grouped).forEach((drive) => {
       grouped[drive].sort((a, b) => a.title.localeCompare(b.title));
     });
 
@@ -396,22 +708,26 @@ export default function Command() {
   }, [items]);
 
   // Smart categorization based on filter mode
-  const categorizedGames = useMemo(() => {
+  const groupedGames = useMemo(() => {
     if (filterMode === "all") {
       return { "All Games": items };
     }
 
     if (filterMode === "favorites") {
-      return { "Favorites": items.filter((g) => g.isFavorite) };
+      return { Favorites: items.filter((g) => g.isFavorite) };
     }
 
     if (filterMode === "recent") {
       return { "Recent Games": recentGames };
     }
 
+    if (filterMode === "attention") {
+      return { "Needs Attention": items.filter((g) => g.status.needsAttention) };
+    }
+
     if (filterMode === "alphabetical") {
       const grouped: Record<string, GameItem[]> = {};
-      items.forEach(game => {
+      items.forEach((game) => {
         const firstLetter = game.title.charAt(0).toUpperCase();
         const group = /[A-Z]/.test(firstLetter) ? firstLetter : "#";
         if (!grouped[group]) grouped[group] = [];
@@ -420,29 +736,56 @@ export default function Command() {
       return grouped;
     }
 
+    if (filterMode === "tag") {
+      return groupByTag(items, gameNotes);
+    }
+
+    if (filterMode === "status") {
+      return groupByStatus(items, gameNotes);
+    }
+
     // Size grouping removed - fallback to drive-based
     return gamesByLibrary;
 
     // Default to drive-based categorization
     return gamesByLibrary;
-  }, [items, filterMode, gamesByLibrary, recentGames]);
+  }, [items, filterMode, gamesByLibrary, recentGames, gameNotes]);
+
+  // Running games move out of their group into a section pinned at the top
+  const categorizedGames = useMemo(() => {
+    if (Object.keys(running).length === 0) return groupedGames;
+    const pinned: GameItem[] = [];
+    const rest: Record<string, GameItem[]> = {};
+    for (const [category, games] of Object.entries(groupedGames)) {
+      rest[category] = games.filter((g) => {
+        if (!running[g.appid]) return true;
+        pinned.push(g);
+        return false;
+      });
+    }
+    return pinned.length > 0 ? { [RUNNING_SECTION]: pinned, ...rest } : rest;
+  }, [groupedGames, running]);
+
+  // Relevance of each game for the current query; undefined while the search bar is empty
+  const scores = useMemo(() => {
+    if (!query.trim()) return undefined;
+    return new Map(items.map((g) => [g.id, scoreFields(query, searchFields(g, aliases[g.appid], gameNotes[g.appid]))]));
+  }, [items, query, aliases, gameNotes]);
 
   const filteredItems = useMemo(() => {
-    const q = query.toLowerCase();
-    let filtered = items.filter((g) => {
-      if (!g.keywords) return true;
-      return g.keywords.some((k) => k.includes(q));
-    });
+    const matches = (g: GameItem) => !scores || (scores.get(g.id) ?? 0) > 0;
+    let filtered = items.filter(matches);
 
     // Apply filter mode
     switch (filterMode) {
       case "favorites":
-        filtered = filtered.filter(g => g.isFavorite);
+        filtered = filtered.filter((g) => g.isFavorite);
         break;
       case "recent":
-        filtered = recentGames.filter(g => 
-          !g.keywords || g.keywords.some((k) => k.includes(q))
-        );
+        filtered = recentGames.filter(matches);
+        break;
+      case "attention":
+        filtered = filtered.filter((g) => g.status.needsAttention);
         break;
     }
 
@@ -462,6 +805,13 @@ export default function Command() {
         break;
     }
 
+    // While searching, relevance wins over the chosen sort and grouping
+    if (scores) {
+      return filtered.sort(
+        (a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) || a.title.localeCompare(b.title),
+      );
+    }
+
     // Apply drive-based grouping if selected
     if (filterMode === "drive") {
       const drives = new Set(filtered.map((g) => driveOf(g.libraryPath)));
@@ -477,7 +827,7 @@ export default function Command() {
     } else {
       return filtered;
     }
-  }, [items, query, filterMode, sortMode, recentGames]);
+  }, [items, scores, filterMode, sortMode, recentGames]);
 
   // Ensure selection starts at the very first item (Games > Actions)
   const initialSelectionDone = useRef(false);
@@ -493,55 +843,175 @@ export default function Command() {
   }, [filteredItems, filteredActions, selectedId]);
 
   async function onLaunch(g: GameItem) {
+    const launched = await launchGameWithFeedback(
+      host,
+      { appid: g.appid, name: g.title },
+      { steamId64: currentUser, paths: itemContextRef.current?.paths },
+    );
+    if (launched && launchProfiles[g.appid]?.lastUsed) {
+      setLaunchProfiles(await setLastUsedProfile(g.appid, undefined));
+    }
+  }
+
+  async function onLaunchProfile(g: GameItem, profile: LaunchProfile) {
     try {
       await showToast({
         style: Toast.Style.Animated,
-        title: `Launching ${g.title}...`,
+        title: `Launching ${g.title} (${profile.name})...`,
       });
-      await launchSteamGame(g.appid);
-      await showToast({ 
-        style: Toast.Style.Success, 
-        title: `Launched ${g.title}`,
-        message: "Game should start shortly"
+      await launchWithProfile(host, g.appid, profile);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Launched ${g.title} (${profile.name})`,
+        message: profile.envHints ? `Environment: ${profile.envHints}` : "Game should start shortly",
       });
+      await recordLaunch(host, { appid: g.appid, name: g.title }, currentUser, itemContextRef.current?.paths);
+      setLaunchProfiles(await setLastUsedProfile(g.appid, profile.id));
     } catch (e: unknown) {
       await showFailure(e, { title: `Launch failed: ${g.title}` });
     }
   }
 
-  function formatBytes(bytes: number): string {
-    if (bytes === 0) return "0 B";
-    const k = 1024;
-    const sizes = ["B", "KB", "MB", "GB", "TB"];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
+  // Close the game politely first; only force it after the user agrees
+  async function onQuitGame(g: GameItem, run: RunningGame) {
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Quitting ${g.title}...` });
+    try {
+      let closed = await quitGame(host, run);
+      if (!closed) {
+        await toast.hide();
+        const ok = await confirmAlert({
+          title: `Force quit ${g.title}?`,
+          message: "The game did not close on its own. Unsaved progress will be lost.",
+          primaryAction: {
+            title: "Force Quit",
+            style: Alert.ActionStyle.Destructive,
+          },
+          icon: Icon.XMarkCircle,
+        });
+        if (!ok) return;
+        closed = await quitGame(host, run, { force: true });
+      }
+      if (!closed) throw new Error("The game is still running");
+      setRunning((prev) => {
+        const next = { ...prev };
+        delete next[g.appid];
+        return next;
+      });
+      await showToast({ style: Toast.Style.Success, title: `Quit ${g.title}` });
+    } catch (e: unknown) {
+      await showFailure(e, { title: `Failed to quit ${g.title}` });
+    }
   }
 
-  async function refreshData() {
-    setRefreshTick(prev => prev + 1);
-    await showToast({
-      style: Toast.Style.Animated,
-      title: "Refreshing Steam games...",
+  async function onAppCommand(g: GameItem, command: SteamAppCommand) {
+    if (command === "uninstall") {
+      const ok = await confirmAlert({
+        title: `Uninstall ${g.title}?`,
+        message: "Steam will delete the game's local files. Cloud saves are not affected.",
+        primaryAction: {
+          title: "Uninstall",
+          style: Alert.ActionStyle.Destructive,
+        },
+        icon: Icon.Trash,
+      });
+      if (!ok) return;
+    }
+    const verb = { install: "Installing", validate: "Verifying", uninstall: "Uninstalling" }[command];
+    try {
+      await runSteamAppCommand(host, command, g.appid);
+      await showToast({
+        style: Toast.Style.Animated,
+        title: `${verb} ${g.title}...`,
+        message: "Confirm in Steam if asked",
+      });
+      watchManifest(g, command);
+    } catch (e: unknown) {
+      await showFailure(e, { title: `Failed to start: ${g.title}` });
+    }
+  }
+
+  // Follow StateFlags of a game after an install/verify/uninstall command until Steam is done
+  function watchManifest(g: GameItem, command: SteamAppCommand) {
+    const watchers = manifestWatchers.current;
+    watchers.get(g.id)?.();
+    let sawBusy = false;
+    const finish = (title: string, style = Toast.Style.Success) => {
+      stop();
+      clearTimeout(idleTimer);
+      watchers.delete(g.id);
+      showToast({ style, title });
+    };
+    const stop = watchAppManifest(getAppManifestPath(g.libraryPath, g.appid), g.libraryPath, (game) => {
+      if (!game) {
+        if (command !== "uninstall") return;
+        setItems((prev) => prev.filter((p) => p.id !== g.id));
+        finish(`Uninstalled ${g.title}`);
+        return;
+      }
+      setItems((prev) =>
+        prev.map((p) =>
+          p.id === g.id
+            ? { ...p, status: game.status, progress: game.progress, sizeBytes: game.sizeOnDisk ?? p.sizeBytes }
+            : p,
+        ),
+      );
+      if (game.status.busy) {
+        sawBusy = true;
+        clearTimeout(idleTimer);
+      } else if (sawBusy) {
+        const failed = game.status.needsAttention;
+        const done = {
+          install: `Installed ${g.title}`,
+          validate: `Verified ${g.title}`,
+          uninstall: `Uninstalled ${g.title}`,
+        }[command];
+        finish(failed ? `${g.title}: ${game.status.label}` : done, failed ? Toast.Style.Failure : Toast.Style.Success);
+      }
+    });
+    // Give up if Steam never starts (e.g. its dialog was cancelled)
+    const idleTimer = setTimeout(() => {
+      stop();
+      watchers.delete(g.id);
+    }, 10 * 60_000);
+    watchers.set(g.id, () => {
+      stop();
+      clearTimeout(idleTimer);
     });
   }
 
-  async function onSwitchAccount() {
+  async function onLaunchShortcut(sc: SteamShortcut) {
     try {
       await showToast({
         style: Toast.Style.Animated,
-        title: "Switching Steam account...",
+        title: `Launching ${sc.name}...`,
       });
-      await restartSteam();
+      await launchSteamShortcut(host, sc);
       await showToast({
         style: Toast.Style.Success,
-        title: "Steam restarted",
-        message: "You can now login with a different account"
+        title: `Launched ${sc.name}`,
+        message: "Non-Steam game should start shortly",
       });
     } catch (e: unknown) {
-      await showFailure(e, { title: "Failed to restart Steam" });
+      await showFailure(e, { title: `Launch failed: ${sc.name}` });
     }
   }
 
+  function formatBytes(bytes: number): string {
+    if (bytes === 0) return "0 B";
+    const k = 1024;
+    const sizes = ["B", "KB", "MB", "GB", "TB"];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
+  }
+
+  async function refreshData() {
+    setRefreshTick((prev) => prev + 1);
+    await showToast({
+      style: Toast.Style.Animated,
+      title: "Refreshing Steam games...",
+    });
+  }
+
   async function onOpenFolder(g: GameItem) {
     const full = join(g.libraryPath, "steamapps", "common", g.installdir);
     try {
@@ -551,19 +1021,20 @@ export default function Command() {
         });
         return;
       }
-      // Use Windows 'start' for better reliability from Node
-      await executeCommand(`start "" "${full}"`);
+      await host.openPath(full);
     } catch (e: unknown) {
       await showFailure(e, { title: "Failed to open folder" });
     }
   }
 
+  // "By Tag" can list a game in several sections; repeats get their own item id
+  const listedIds = new Set<string>();
 
   return (
     <List
       key={`list-${refreshTick}`}
       isLoading={isLoading}
-      searchBarPlaceholder="Search games by name, App ID, drive, or owner..."
+      searchBarPlaceholder="Search games by name, alias, App ID, drive, owner or tag..."
       onSearchTextChange={setQuery}
       searchText={query}
       selectedItemId={selectedId}
@@ -576,10 +1047,10 @@ export default function Command() {
           storeValue={true}
           onChange={(newValue) => {
             setDropdownValue(newValue);
-            if (["all", "drive", "alphabetical", "recent", "favorites"].includes(newValue)) {
-              setFilterMode(newValue as typeof filterMode);
-            } else {
-              setSortMode(newValue as typeof sortMode);
+            if (isFilterMode(newValue)) {
+              setFilterMode(newValue);
+            } else if (isSortMode(newValue)) {
+              setSortMode(newValue);
             }
           }}
           value={dropdownValue}
@@ -587,9 +1058,12 @@ export default function Command() {
           <List.Dropdown.Section title="Filter">
             <List.Dropdown.Item title="Recent Games" value="recent" icon={Icon.Clock} />
             <List.Dropdown.Item title="Favorites" value="favorites" icon={Icon.Heart} />
+            <List.Dropdown.Item title="Needs Attention" value="attention" icon={Icon.Warning} />
             <List.Dropdown.Item title="By Drive" value="drive" icon={Icon.HardDrive} />
             <List.Dropdown.Item title="All Games" value="all" icon={Icon.List} />
             <List.Dropdown.Item title="Alphabetical" value="alphabetical" icon={Icon.Text} />
+            <List.Dropdown.Item title="By Tag" value="tag" icon={Icon.Tag} />
+            <List.Dropdown.Item title="By Status" value="status" icon={Icon.Bookmark} />
           </List.Dropdown.Section>
           <List.Dropdown.Section title="Sort">
             <List.Dropdown.Item title="Sort by Playtime" value="playtime" icon={Icon.Clock} />
@@ -613,11 +1087,7 @@ export default function Command() {
                 icon={Icon.ArrowClockwise}
                 shortcut={{ modifiers: ["ctrl"], key: "r" }}
               />
-              <Action
-                title="Open Steam"
-                onAction={openSteam}
-                icon={Icon.AppWindow}
-              />
+              <Action title="Open Steam" onAction={() => openSteam(host)} icon={Icon.AppWindow} />
             </ActionPanel>
           }
         />
@@ -625,13 +1095,16 @@ export default function Command() {
 
       {Object.keys(categorizedGames).length > 0 && (
         <>
-          {Object.entries(categorizedGames)
-            .filter(([category, games]) =>
-              !query || games.some((g: GameItem) => g.title.toLowerCase().includes(query.toLowerCase()))
-            )
+          {Object.entries(scores ? { [SEARCH_SECTION]: filteredItems } : categorizedGames)
             .sort(([a], [b]) => {
+              if (a === RUNNING_SECTION) return -1;
+              if (b === RUNNING_SECTION) return 1;
               // Sort categories intelligently
               if (filterMode === "alphabetical") return a.localeCompare(b);
+              if (filterMode === "status") return statusSectionRank(a) - statusSectionRank(b);
+              if (filterMode === "tag" && (a === UNTAGGED_SECTION || b === UNTAGGED_SECTION)) {
+                return a === UNTAGGED_SECTION ? 1 : -1;
+              }
               if (filterMode === "drive") {
                 // Keep drive order as-is for familiarity
                 return a.localeCompare(b);
@@ -639,15 +1112,15 @@ export default function Command() {
               return a.localeCompare(b);
             })
             .map(([category, games]) => {
-              const filteredGames = query
-                ? games.filter((g: GameItem) => g.title.toLowerCase().includes(query.toLowerCase()))
-                : games;
+              const filteredGames = games;
 
               if (filteredGames.length === 0) return null;
 
-              // Apply item sorting per-section so UI reflects selected sortMode
+              // Apply item sorting per-section so UI reflects selected sortMode; search results stay ranked
               const sortedGames = [...filteredGames];
-              switch (sortMode) {
+              switch (category === SEARCH_SECTION ? undefined : sortMode) {
+                case undefined:
+                  break;
                 case "playtime":
                   sortedGames.sort((a, b) => (b.playtimeMinutes || 0) - (a.playtimeMinutes || 0));
                   break;
@@ -666,59 +1139,91 @@ export default function Command() {
                 <List.Section
                   key={category}
                   title={
-                    filterMode === "alphabetical"
+                    category === RUNNING_SECTION || category === SEARCH_SECTION
                       ? `${category} (${filteredGames.length})`
-                      : filterMode === "all"
-                      ? `All Games (${filteredGames.length})`
-                      : filterMode === "drive"
-                      ? `${category} Drive (${filteredGames.length})`
-                      : `${category} (${filteredGames.length})`
+                      : filterMode === "alphabetical"
+                        ? `${category} (${filteredGames.length})`
+                        : filterMode === "all"
+                          ? `All Games (${filteredGames.length})`
+                          : filterMode === "drive"
+                            ? `${category} Drive (${filteredGames.length})`
+                            : `${category} (${filteredGames.length})`
                   }
                   subtitle={
                     filterMode === "drive"
-                      ? `${filteredGames.length} game${filteredGames.length === 1 ? '' : 's'}`
+                      ? `${filteredGames.length} game${filteredGames.length === 1 ? "" : "s"}`
                       : undefined
                   }
                 >
-                {sortedGames.map((g: GameItem) => {
-                  const drive = driveOf(g.libraryPath);
-                  const accessories = viewMode === "detail" ? [] : [
-                    ...(g.categories?.[0] ? [{ tag: { value: g.categories[0], color: Color.SecondaryText } }] : []),
-                    { tag: { value: formatPlaytime(g.playtimeMinutes), color: Color.SecondaryText } },
-                    ...(drive ? [{ tag: { value: drive, color: driveColor(drive) } }] : []),
-                    ...(g.isFavorite ? [{ icon: { source: Icon.Heart, tintColor: Color.Red } }] : []),
-                    ...(g.isUpdating ? [{ icon: { source: Icon.Download, tintColor: Color.Blue } }] : []),
-                    ...(g.hasCloudSaves ? [{ icon: { source: Icon.Cloud, tintColor: Color.Green } }] : [])
-                  ];
-
-                  return (
-                    <List.Item
-                      key={g.id}
-                      id={g.id}
-                      title={g.title}
-                      subtitle={undefined}
-                      icon={{
-                        source: g.isFavorite ? Icon.Heart : Icon.GameController,
-                        tintColor: g.isFavorite ? Color.Red : (g.lastOwner === currentUser ? Color.Green : Color.SecondaryText)
-                      }}
-                      keywords={g.keywords}
-                      accessories={accessories}
-                      detail={viewMode === "detail" ? (
-                        <List.Item.Detail
-                          markdown={`# ${g.name}
+                  {sortedGames.map((g: GameItem) => {
+                    const drive = driveOf(g.libraryPath);
+                    const profiles = launchProfiles[g.appid]?.profiles ?? [];
+                    const lastProfile = getLastUsedProfile(launchProfiles, g.appid);
+                    const run = running[g.appid];
+                    const note = gameNotes[g.appid];
+                    const itemId = listedIds.has(g.id) ? `${g.id}@${category}` : g.id;
+                    listedIds.add(g.id);
+                    const runningAccessories = run
+                      ? [
+                          { tag: { value: "Running", color: Color.Green } },
+                          ...(run.startTime
+                            ? [{ text: formatUptime(run.startTime), icon: Icon.Clock, tooltip: "Uptime" }]
+                            : []),
+                        ]
+                      : [];
+                    const accessories =
+                      viewMode === "detail"
+                        ? runningAccessories
+                        : [
+                            ...runningAccessories,
+                            ...(g.genre?.[0] ? [{ tag: { value: g.genre[0], color: Color.SecondaryText } }] : []),
+                            { tag: { value: formatPlaytime(g.playtimeMinutes), color: Color.SecondaryText } },
+                            ...(drive ? [{ tag: { value: drive, color: driveColor(drive) } }] : []),
+                            ...(g.isFavorite ? [{ icon: { source: Icon.Heart, tintColor: Color.Red } }] : []),
+                            ...(g.status.kind !== "ready"
+                              ? [{ icon: statusIcon(g.status), tooltip: g.status.label }]
+                              : []),
+                            ...(g.status.busy && g.progress !== undefined
+                              ? [{ tag: { value: `${Math.round(g.progress * 100)}%`, color: Color.Blue } }]
+                              : []),
+                            ...(g.hasCloudSaves ? [{ icon: { source: Icon.Cloud, tintColor: Color.Green } }] : []),
+                          ];
+
+                    return (
+                      <List.Item
+                        key={itemId}
+                        id={itemId}
+                        title={g.title}
+                        subtitle={undefined}
+                        icon={{
+                          source: g.isFavorite ? Icon.Heart : Icon.GameController,
+                          tintColor: g.isFavorite
+                            ? Color.Red
+                            : g.lastOwner === currentUser
+                              ? Color.Green
+                              : Color.SecondaryText,
+                        }}
+                        keywords={g.keywords}
+                        accessories={accessories}
+                        detail={
+                          viewMode === "detail" ? (
+                            <List.Item.Detail
+                              markdown={`# ${g.name}
 
 <img src="https://steamcdn-a.akamaihd.net/steam/apps/${g.appid}/header.jpg" width="320" />
 
 ## Game Information
 
 **App ID:** \`${g.appid}\`  
-**Category:** ${g.categories?.[0] || 'Unknown'}  
+**Genre:** ${g.genre?.length ? g.genre.join(", ") : "Unknown"}  
+**Developer:** ${g.developer || "Unknown"}  
 **Playtime:** ${formatPlaytime(g.playtimeMinutes)}  
+**Last Played:** ${g.lastPlayed ? g.lastPlayed.toLocaleDateString() : "Never played"}  
 **Install Drive:** ${drive || "Unknown"}  
 **Install Location:** \`${g.libraryPath}\`  
 **Game Directory:** \`${g.installdir}\`  
 
-${g.achievements ? `**Achievements:** ${g.achievements.unlocked}/${g.achievements.total} unlocked (${Math.round((g.achievements.unlocked / g.achievements.total) * 100)}%)` : ''}
+${g.achievements ? `**Achievements:** ${g.achievements.unlocked}/${g.achievements.total} unlocked (${Math.round((g.achievements.unlocked / g.achievements.total) * 100)}%)` : ""}
 
 ---
 
@@ -727,89 +1232,259 @@ ${g.achievements ? `**Achievements:** ${g.achievements.unlocked}/${g.achievement
 - **Ctrl + F** - Open Game Folder  
 - **Ctrl + C** - Copy App ID
 - **Ctrl + S** - Steam Store Page
-- **Ctrl + H** - ${g.isFavorite ? 'Remove from' : 'Add to'} Favorites
+- **Ctrl + H** - ${g.isFavorite ? "Remove from" : "Add to"} Favorites
+- **Ctrl + N** - Edit Notes & Tags
 - **Ctrl + B** - Launch in Big Picture Mode
 
-${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
-**⚠️ Note:** This game was last played by **${g.lastOwnerName}**` : ''}
-
+${
+  g.lastOwnerName && g.lastOwnerName !== currentUser
+    ? `
+**⚠️ Note:** This game was last played by **${g.lastOwnerName}**`
+    : ""
+}
+${note?.note ? `\n## My Notes\n\n${note.note}\n` : ""}
 *Steam Game managed by Raycast*`}
-                            metadata={
-                              <List.Item.Detail.Metadata>
-                                {/* Top priority status section */}
-                                <List.Item.Detail.Metadata.Label 
-                                  title="Status" 
-                                  text={g.installed ? "✅ Installed" : "❌ Not Installed"} 
-                                  icon={g.installed ? Icon.CheckCircle : Icon.XMarkCircle}
-                                />
-                                <List.Item.Detail.Metadata.Label 
-                                  title="Favorite" 
-                                  text={g.isFavorite ? "❤️ Yes" : "🤍 No"} 
-                                  icon={g.isFavorite ? Icon.Heart : Icon.HeartDisabled}
-                                />
-                                <List.Item.Detail.Metadata.Label 
-                                  title="Steam Cloud" 
-                                  text={g.hasCloudSaves ? "☁️ Enabled" : "📱 Local Only"} 
-                                  icon={g.hasCloudSaves ? Icon.Cloud : Icon.HardDrive}
-                                />
-                                {g.achievements && (
-                                  <List.Item.Detail.Metadata.Label 
-                                    title="Achievements" 
-                                    text={`${g.achievements.unlocked}/${g.achievements.total} (${Math.round((g.achievements.unlocked / g.achievements.total) * 100)}%)`} 
-                                    icon={Icon.Trophy}
+                              metadata={
+                                <List.Item.Detail.Metadata>
+                                  {/* Top priority status section */}
+                                  {run && (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Running"
+                                      text={
+                                        run.startTime
+                                          ? `For ${formatUptime(run.startTime)} (${run.processes.length} process${run.processes.length === 1 ? "" : "es"})`
+                                          : `${run.processes.length} process${run.processes.length === 1 ? "" : "es"}`
+                                      }
+                                      icon={{ source: Icon.Play, tintColor: Color.Green }}
+                                    />
+                                  )}
+                                  <List.Item.Detail.Metadata.Label
+                                    title="Status"
+                                    text={g.status.label}
+                                    icon={statusIcon(g.status)}
                                   />
-                                )}
-                                <List.Item.Detail.Metadata.Separator />
-
-                                {/* General info */}
-                                <List.Item.Detail.Metadata.Label title="App ID" text={g.appid} icon={Icon.Hashtag} />
-                                <List.Item.Detail.Metadata.Label title="Category" text={g.categories?.[0] || 'Unknown'} icon={Icon.Tag} />
-                                <List.Item.Detail.Metadata.Label title="Playtime" text={formatPlaytime(g.playtimeMinutes)} icon={Icon.Clock} />
-                                <List.Item.Detail.Metadata.Separator />
-
-                                {/* Installation */}
-                                <List.Item.Detail.Metadata.Label title="Install Drive" text={drive || "Unknown"} icon={Icon.HardDrive} />
-                                <List.Item.Detail.Metadata.Label 
-                                  title="Install Directory" 
-                                  text={join(g.libraryPath, "steamapps", "common", g.installdir)} 
-                                  icon={Icon.Folder}
-                                />
-                                {g.lastOwnerName ? (
-                                  <List.Item.Detail.Metadata.Label 
-                                    title="Last Owner" 
-                                    text={g.lastOwnerName} 
-                                    icon={Icon.Person}
+                                  <List.Item.Detail.Metadata.Label
+                                    title="Favorite"
+                                    text={g.isFavorite ? "❤️ Yes" : "🤍 No"}
+                                    icon={g.isFavorite ? Icon.Heart : Icon.HeartDisabled}
+                                  />
+                                  <List.Item.Detail.Metadata.Label
+                                    title="Steam Cloud"
+                                    text={g.hasCloudSaves ? "☁️ Enabled" : "📱 Local Only"}
+                                    icon={g.hasCloudSaves ? Icon.Cloud : Icon.HardDrive}
+                                  />
+                                  {g.achievements && (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Achievements"
+                                      text={`${g.achievements.unlocked}/${g.achievements.total} (${Math.round((g.achievements.unlocked / g.achievements.total) * 100)}%)`}
+                                      icon={Icon.Trophy}
+                                    />
+                                  )}
+                                  <List.Item.Detail.Metadata.Separator />
+
+                                  {/* Personal notes */}
+                                  {note?.status && (
+                                    <List.Item.Detail.Metadata.TagList title="Backlog">
+                                      <List.Item.Detail.Metadata.TagList.Item
+                                        text={BACKLOG_STATUS_TITLES[note.status]}
+                                        color={backlogColor(note.status)}
+                                      />
+                                    </List.Item.Detail.Metadata.TagList>
+                                  )}
+                                  {note?.completedAt && (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Completed"
+                                      text={new Date(note.completedAt).toLocaleDateString()}
+                                      icon={Icon.CheckCircle}
+                                    />
+                                  )}
+                                  {note?.tags.length ? (
+                                    <List.Item.Detail.Metadata.TagList title="My Tags">
+                                      {note.tags.map((t) => (
+                                        <List.Item.Detail.Metadata.TagList.Item key={t} text={t} />
+                                      ))}
+                                    </List.Item.Detail.Metadata.TagList>
+                                  ) : null}
+                                  {note?.note && (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Note"
+                                      text={note.note.split("\n")[0]}
+                                      icon={Icon.Document}
+                                    />
+                                  )}
+                                  {note && <List.Item.Detail.Metadata.Separator />}
+
+                                  {/* General info */}
+                                  <List.Item.Detail.Metadata.Label title="App ID" text={g.appid} icon={Icon.Hashtag} />
+                                  {aliases[g.appid]?.length ? (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Aliases"
+                                      text={aliases[g.appid].join(", ")}
+                                      icon={Icon.TextCursor}
+                                    />
+                                  ) : null}
+                                  <List.Item.Detail.Metadata.Label
+                                    title="Genre"
+                                    text={g.genre?.length ? g.genre.join(", ") : "Unknown"}
+                                    icon={Icon.Tag}
+                                  />
+                                  {g.appType && g.appType.toLowerCase() !== "game" ? (
+                                    <List.Item.Detail.Metadata.Label title="Type" text={g.appType} icon={Icon.Box} />
+                                  ) : null}
+                                  {g.developer ? (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Developer"
+                                      text={g.developer}
+                                      icon={Icon.Hammer}
+                                    />
+                                  ) : null}
+                                  {g.publisher ? (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Publisher"
+                                      text={g.publisher}
+                                      icon={Icon.Building}
+                                    />
+                                  ) : null}
+                                  {g.releaseDate ? (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Release Date"
+                                      text={g.releaseDate.toLocaleDateString()}
+                                      icon={Icon.Calendar}
+                                    />
+                                  ) : null}
+                                  {g.categories && g.categories.length > 0 ? (
+                                    <List.Item.Detail.Metadata.TagList title="Store Tags">
+                                      {g.categories.slice(0, 6).map((tag) => (
+                                        <List.Item.Detail.Metadata.TagList.Item key={tag} text={tag} />
+                                      ))}
+                                    </List.Item.Detail.Metadata.TagList>
+                                  ) : null}
+                                  <List.Item.Detail.Metadata.Label
+                                    title="Playtime"
+                                    text={formatPlaytime(g.playtimeMinutes)}
+                                    icon={Icon.Clock}
                                   />
-                                ) : null}
-                                <List.Item.Detail.Metadata.Separator />
-
-                                {/* Dynamic state / size */}
-                                {g.isUpdating && (
-                                  <List.Item.Detail.Metadata.Label 
-                                    title="Update Status" 
-                                    text="🔄 Updating..." 
-                                    icon={Icon.Download}
+                                  {g.playtime2wksMinutes ? (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Past 2 Weeks"
+                                      text={formatPlaytime(g.playtime2wksMinutes)}
+                                      icon={Icon.Clock}
+                                    />
+                                  ) : null}
+                                  <List.Item.Detail.Metadata.Label
+                                    title="Last Played"
+                                    text={g.lastPlayed ? g.lastPlayed.toLocaleDateString() : "Never played"}
+                                    icon={Icon.Calendar}
                                   />
-                                )}
-                                {g.sizeBytes && g.sizeBytes > 0 ? (
-                                  <List.Item.Detail.Metadata.Label 
-                                    title="Size" 
-                                    text={formatFileSize(g.sizeBytes)} 
+                                  <List.Item.Detail.Metadata.Separator />
+
+                                  {/* Installation */}
+                                  <List.Item.Detail.Metadata.Label
+                                    title="Install Drive"
+                                    text={drive || "Unknown"}
                                     icon={Icon.HardDrive}
                                   />
-                                ) : null}
-                              </List.Item.Detail.Metadata>
-                            }
-                          />
-                        ) : undefined}
+                                  <List.Item.Detail.Metadata.Label
+                                    title="Install Directory"
+                                    text={join(g.libraryPath, "steamapps", "common", g.installdir)}
+                                    icon={Icon.Folder}
+                                  />
+                                  {g.lastOwnerName ? (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Last Owner"
+                                      text={g.lastOwnerName}
+                                      icon={Icon.Person}
+                                    />
+                                  ) : null}
+                                  <List.Item.Detail.Metadata.Separator />
+
+                                  {/* Dynamic state / size */}
+                                  {g.status.kind !== "ready" && (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Update Status"
+                                      text={`${g.status.label} (StateFlags ${g.status.flags}: ${g.status.active.join(", ") || "none"})`}
+                                      icon={statusIcon(g.status)}
+                                    />
+                                  )}
+                                  {g.sizeBytes && g.sizeBytes > 0 ? (
+                                    <List.Item.Detail.Metadata.Label
+                                      title="Size"
+                                      text={`${formatFileSize(g.sizeBytes)}${g.sizeIsExact ? "" : " (manifest)"}`}
+                                      icon={Icon.HardDrive}
+                                    />
+                                  ) : null}
+                                </List.Item.Detail.Metadata>
+                              }
+                            />
+                          ) : undefined
+                        }
                         actions={
                           <ActionPanel>
                             <ActionPanel.Section title="Game Actions">
-                              <Action
-                                title="Launch Game"
-                                onAction={() => onLaunch(g)}
-                                icon={Icon.Play}
-                              />
+                              {lastProfile && (
+                                <Action
+                                  title={`Launch with ${lastProfile.name}`}
+                                  onAction={() => onLaunchProfile(g, lastProfile)}
+                                  icon={Icon.Play}
+                                />
+                              )}
+                              {run && (
+                                <Action
+                                  title="Quit Game"
+                                  onAction={() => onQuitGame(g, run)}
+                                  icon={Icon.XMarkCircle}
+                                  shortcut={{ modifiers: ["ctrl"], key: "q" }}
+                                />
+                              )}
+                              {run && (
+                                <Action.Push
+                                  title="Show Process Info"
+                                  target={<ProcessInfoView title={g.title} running={run} />}
+                                  icon={Icon.Info}
+                                  shortcut={{ modifiers: ["ctrl"], key: "i" }}
+                                />
+                              )}
+                              <Action title="Launch Game" onAction={() => onLaunch(g)} icon={Icon.Play} />
+                              <ActionPanel.Submenu
+                                title="Launch With…"
+                                icon={Icon.List}
+                                shortcut={{ modifiers: ["ctrl"], key: "p" }}
+                              >
+                                {profiles.map((profile) => (
+                                  <Action
+                                    key={profile.id}
+                                    title={profile.name}
+                                    onAction={() => onLaunchProfile(g, profile)}
+                                    icon={profile.bigPictureFirst ? Icon.Monitor : Icon.Play}
+                                  />
+                                ))}
+                                <Action.Push
+                                  title="New Launch Profile…"
+                                  target={
+                                    <LaunchProfileForm appid={g.appid} title={g.title} onChange={setLaunchProfiles} />
+                                  }
+                                  icon={Icon.Plus}
+                                />
+                              </ActionPanel.Submenu>
+                              {profiles.length > 0 && (
+                                <ActionPanel.Submenu title="Edit Launch Profile" icon={Icon.Pencil}>
+                                  {profiles.map((profile) => (
+                                    <Action.Push
+                                      key={profile.id}
+                                      title={profile.name}
+                                      target={
+                                        <LaunchProfileForm
+                                          appid={g.appid}
+                                          title={g.title}
+                                          profile={profile}
+                                          onChange={setLaunchProfiles}
+                                        />
+                                      }
+                                      icon={Icon.Pencil}
+                                    />
+                                  ))}
+                                </ActionPanel.Submenu>
+                              )}
                               <Action
                                 title="Open Game Folder"
                                 onAction={() => openFolder(join(g.libraryPath, "steamapps", "common", g.installdir))}
@@ -820,16 +1495,64 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
                                 title="Launch in Big Picture Mode"
                                 onAction={async () => {
                                   try {
-                                    await executeCommand(`start "" "steam://open/bigpicture"`);
-                                    await new Promise(resolve => setTimeout(resolve, 2000)); // Wait for Big Picture to load
-                                    await executeCommand(`start "" "steam://rungameid/${g.appid}"`);
+                                    await host.openUrl("steam://open/bigpicture");
+                                    await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait for Big Picture to load
+                                    await host.openUrl(`steam://rungameid/${g.appid}`);
+                                    await recordLaunch(
+                                      host,
+                                      { appid: g.appid, name: g.title },
+                                      currentUser,
+                                      itemContextRef.current?.paths,
+                                    );
                                   } catch {
-                                    await showToast({ style: Toast.Style.Failure, title: "Failed to launch Big Picture" });
+                                    await showToast({
+                                      style: Toast.Style.Failure,
+                                      title: "Failed to launch Big Picture",
+                                    });
                                   }
                                 }}
                                 icon={Icon.Monitor}
                                 shortcut={{ modifiers: ["ctrl"], key: "b" }}
                               />
+                              <Action.Push
+                                title="Launch with Arguments"
+                                target={<LaunchWithArgumentsForm appid={g.appid} title={g.title} />}
+                                icon={Icon.Terminal}
+                                shortcut={{ modifiers: ["ctrl", "shift"], key: "l" }}
+                              />
+                              <Action.Push
+                                title="Edit Launch Options"
+                                target={<LaunchOptionsForm appid={g.appid} title={g.title} />}
+                                icon={Icon.Gear}
+                                shortcut={{ modifiers: ["ctrl"], key: "l" }}
+                              />
+                              <Action.Push
+                                title="Edit Search Aliases"
+                                target={
+                                  <AliasesForm
+                                    appid={g.appid}
+                                    title={g.title}
+                                    aliases={aliases[g.appid] ?? []}
+                                    onChange={setAliases}
+                                  />
+                                }
+                                icon={Icon.TextCursor}
+                                shortcut={{ modifiers: ["ctrl", "shift"], key: "a" }}
+                              />
+                              <Action.Push
+                                title="Edit Notes & Tags"
+                                target={
+                                  <GameNotesForm
+                                    appid={g.appid}
+                                    title={g.title}
+                                    note={note}
+                                    knownTags={allTags(gameNotes)}
+                                    onChange={setGameNotes}
+                                  />
+                                }
+                                icon={Icon.Pencil}
+                                shortcut={{ modifiers: ["ctrl"], key: "n" }}
+                              />
                               <Action
                                 title={g.isFavorite ? "Remove from Favorites" : "Add to Favorites"}
                                 onAction={() => toggleFavorite(g.appid)}
@@ -837,10 +1560,32 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
                                 shortcut={{ modifiers: ["ctrl"], key: "h" }}
                               />
                             </ActionPanel.Section>
+                            <ActionPanel.Section title="Maintenance">
+                              <Action
+                                title="Verify Integrity of Game Files"
+                                onAction={() => onAppCommand(g, "validate")}
+                                icon={Icon.CheckCircle}
+                                shortcut={{ modifiers: ["ctrl"], key: "v" }}
+                              />
+                              <Action
+                                title="Install or Repair"
+                                onAction={() => onAppCommand(g, "install")}
+                                icon={Icon.Download}
+                              />
+                              <Action
+                                title="Uninstall"
+                                onAction={() => onAppCommand(g, "uninstall")}
+                                icon={Icon.Trash}
+                                style={Action.Style.Destructive}
+                                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                              />
+                            </ActionPanel.Section>
                             <ActionPanel.Section title="Steam Actions">
                               <Action
                                 title="Open Steam Store Page"
-                                onAction={() => executeCommand(`start "" "https://store.steampowered.com/app/${g.appid}"`).catch(() => {})}
+                                onAction={() =>
+                                  host.openUrl(`https://store.steampowered.com/app/${g.appid}`).catch(() => {})
+                                }
                                 icon={Icon.Globe}
                                 shortcut={{ modifiers: ["ctrl"], key: "s" }}
                               />
@@ -848,7 +1593,11 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
                                 title="Copy App ID"
                                 onAction={async () => {
                                   await Clipboard.copy(g.appid);
-                                  await showToast({ style: Toast.Style.Success, title: "Copied App ID", message: g.appid });
+                                  await showToast({
+                                    style: Toast.Style.Success,
+                                    title: "Copied App ID",
+                                    message: g.appid,
+                                  });
                                 }}
                                 icon={Icon.Clipboard}
                                 shortcut={{ modifiers: ["ctrl"], key: "c" }}
@@ -860,7 +1609,11 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
                                 onAction={async () => {
                                   const path = join(g.libraryPath, "steamapps", "common", g.installdir);
                                   await Clipboard.copy(path);
-                                  await showToast({ style: Toast.Style.Success, title: "Copied Game Path", message: path });
+                                  await showToast({
+                                    style: Toast.Style.Success,
+                                    title: "Copied Game Path",
+                                    message: path,
+                                  });
                                 }}
                                 icon={Icon.Folder}
                               />
@@ -869,7 +1622,11 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
                                 onAction={async () => {
                                   const url = `steam://rungameid/${g.appid}`;
                                   await Clipboard.copy(url);
-                                  await showToast({ style: Toast.Style.Success, title: "Copied Steam URL", message: url });
+                                  await showToast({
+                                    style: Toast.Style.Success,
+                                    title: "Copied Steam URL",
+                                    message: url,
+                                  });
                                 }}
                                 icon={Icon.Link}
                               />
@@ -877,7 +1634,7 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
                             <ActionPanel.Section title="View Options">
                               <Action
                                 title="Toggle View Mode"
-                                onAction={() => setViewMode(prev => prev === "detail" ? "grid" : "detail")}
+                                onAction={() => setViewMode((prev) => (prev === "detail" ? "grid" : "detail"))}
                                 icon={viewMode === "detail" ? Icon.List : Icon.AppWindowGrid3x3}
                                 shortcut={{ modifiers: ["ctrl"], key: "d" }}
                               />
@@ -887,6 +1644,11 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
                                 icon={Icon.ArrowClockwise}
                                 shortcut={{ modifiers: ["ctrl"], key: "r" }}
                               />
+                              <Action
+                                title={exactSizes ? "Use Manifest Sizes" : "Calculate Exact Sizes"}
+                                onAction={toggleExactSizes}
+                                icon={Icon.HardDrive}
+                              />
                             </ActionPanel.Section>
                           </ActionPanel>
                         }
@@ -899,9 +1661,97 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
         </>
       )}
 
-      {filteredItems.length === 0 && !isLoading && !error && (
-        <List.EmptyView 
-          title="No Steam Games Found" 
+      {filteredShortcuts.length > 0 && (
+        <List.Section title={`Non-Steam Games (${filteredShortcuts.length})`}>
+          {filteredShortcuts.map((sc) => (
+            <List.Item
+              key={`shortcut-${sc.appid}`}
+              id={`shortcut-${sc.appid}`}
+              title={sc.name}
+              icon={{ source: Icon.Link, tintColor: Color.Purple }}
+              keywords={sc.tags}
+              accessories={
+                viewMode === "detail"
+                  ? []
+                  : [
+                      ...sc.tags.slice(0, 2).map((t) => ({ tag: { value: t, color: Color.SecondaryText } })),
+                      { tag: { value: "Non-Steam", color: Color.Purple } },
+                    ]
+              }
+              detail={
+                viewMode === "detail" ? (
+                  <List.Item.Detail
+                    metadata={
+                      <List.Item.Detail.Metadata>
+                        <List.Item.Detail.Metadata.Label title="Type" text="Non-Steam Shortcut" icon={Icon.Link} />
+                        <List.Item.Detail.Metadata.Label title="Game ID" text={sc.gameId} icon={Icon.Hashtag} />
+                        <List.Item.Detail.Metadata.Separator />
+                        <List.Item.Detail.Metadata.Label title="Executable" text={sc.exe} icon={Icon.Terminal} />
+                        <List.Item.Detail.Metadata.Label
+                          title="Start In"
+                          text={sc.startDir || "Default"}
+                          icon={Icon.Folder}
+                        />
+                        <List.Item.Detail.Metadata.Label
+                          title="Launch Options"
+                          text={sc.launchOptions || "None"}
+                          icon={Icon.Gear}
+                        />
+                        {sc.tags.length > 0 ? (
+                          <List.Item.Detail.Metadata.TagList title="Tags">
+                            {sc.tags.map((t) => (
+                              <List.Item.Detail.Metadata.TagList.Item key={t} text={t} />
+                            ))}
+                          </List.Item.Detail.Metadata.TagList>
+                        ) : null}
+                      </List.Item.Detail.Metadata>
+                    }
+                  />
+                ) : undefined
+              }
+              actions={
+                <ActionPanel>
+                  <ActionPanel.Section title="Shortcut Actions">
+                    <Action title="Launch Game" onAction={() => onLaunchShortcut(sc)} icon={Icon.Play} />
+                    {sc.startDir ? (
+                      <Action
+                        title="Open Start Folder"
+                        onAction={() => openFolder(sc.startDir)}
+                        icon={Icon.Folder}
+                        shortcut={{ modifiers: ["ctrl"], key: "f" }}
+                      />
+                    ) : null}
+                    <Action.CopyToClipboard title="Copy Executable Path" content={sc.exe} />
+                    <Action.CopyToClipboard
+                      title="Copy Steam URL"
+                      content={`steam://rungameid/${sc.gameId}`}
+                      shortcut={{ modifiers: ["ctrl"], key: "c" }}
+                    />
+                  </ActionPanel.Section>
+                  <ActionPanel.Section title="View Options">
+                    <Action
+                      title="Toggle View Mode"
+                      onAction={() => setViewMode((prev) => (prev === "detail" ? "grid" : "detail"))}
+                      icon={viewMode === "detail" ? Icon.List : Icon.AppWindowGrid3x3}
+                      shortcut={{ modifiers: ["ctrl"], key: "d" }}
+                    />
+                    <Action
+                      title="Refresh Games"
+                      onAction={refreshData}
+                      icon={Icon.ArrowClockwise}
+                      shortcut={{ modifiers: ["ctrl"], key: "r" }}
+                    />
+                  </ActionPanel.Section>
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+
+      {filteredItems.length === 0 && filteredShortcuts.length === 0 && !isLoading && !error && (
+        <List.EmptyView
+          title="No Steam Games Found"
           description="No installed games match your search criteria"
           icon={{ source: Icon.MagnifyingGlass, tintColor: Color.SecondaryText }}
           actions={
@@ -914,7 +1764,7 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
               />
               <Action
                 title="Open Steam"
-                onAction={openSteam}
+                onAction={() => openSteam(host)}
                 icon={Icon.AppWindow}
                 shortcut={{ modifiers: ["ctrl"], key: "o" }}
               />
@@ -939,16 +1789,12 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
               subtitle="System action"
               icon={{
                 source: a.icon,
-                tintColor: Color.Blue
+                tintColor: Color.Blue,
               }}
               actions={
                 <ActionPanel>
                   <ActionPanel.Section title="Steam Actions">
-                    <Action 
-                      title={a.title} 
-                      onAction={a.action}
-                      icon={a.icon}
-                    />
+                    <Action title={a.title} onAction={a.action} icon={a.icon} />
                   </ActionPanel.Section>
                   <ActionPanel.Section title="Quick Actions">
                     <Action
@@ -959,7 +1805,7 @@ ${g.lastOwnerName && g.lastOwnerName !== currentUser ? `
                     />
                     <Action
                       title="Open Steam"
-                      onAction={openSteam}
+                      onAction={() => openSteam(host)}
                       icon={Icon.AppWindow}
                       shortcut={{ modifiers: ["ctrl"], key: "o" }}
                     />
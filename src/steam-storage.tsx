@@ -0,0 +1,222 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
+import { getProgressIcon } from "@raycast/utils";
+import { join } from "path";
+import { useEffect, useState } from "react";
+import {
+  getInstalledGamesFromLibrary,
+  getLibraryFolders,
+  getSteamInstallPath,
+  SteamGame,
+  SteamLibrary,
+} from "./utils/steam";
+import { formatBytes, getDiskSpace, showFailure } from "./utils";
+import { getHost } from "./utils/host";
+import { launchGameWithFeedback } from "./utils/launch";
+
+const host = getHost();
+
+// Games shown per library on the overview; the rest are one drill-down away
+const TOP_GAMES = 5;
+
+interface LibraryGame {
+  game: SteamGame;
+  sizeBytes?: number;
+}
+
+interface LibraryStorage {
+  library: SteamLibrary;
+  games: LibraryGame[]; // largest first
+  usedBytes: number; // sum of game sizes
+  disk?: { free: number; total: number };
+}
+
+async function loadLibraryStorage(): Promise<LibraryStorage[]> {
+  const paths = await getSteamInstallPath(host);
+  if (!paths) throw new Error("Steam installation not found");
+  return Promise.all(
+    getLibraryFolders(paths.steamPath).map(async (library) => {
+      // Manifests know the size of games being installed; libraryfolders.vdf covers the rest
+      const games = getInstalledGamesFromLibrary(library)
+        .map((game) => ({ game, sizeBytes: game.sizeOnDisk ?? library.apps?.[game.appid] }))
+        .sort((a, b) => (b.sizeBytes ?? 0) - (a.sizeBytes ?? 0));
+      const usedBytes = games.reduce((sum, g) => sum + (g.sizeBytes ?? 0), 0);
+      const disk = await getDiskSpace(library.path);
+      return { library, games, usedBytes, disk };
+    }),
+  );
+}
+
+function libraryTitle(library: SteamLibrary): string {
+  return library.label ? `${library.label} (${library.path})` : library.path;
+}
+
+function gameFolder(g: SteamGame): string {
+  return join(g.libraryPath, "steamapps", "common", g.installdir);
+}
+
+function GameActions(props: { game: SteamGame; storage: LibraryStorage }) {
+  const { game, storage } = props;
+  return (
+    <>
+      <Action
+        title="Open Game Folder"
+        onAction={() =>
+          host.openPath(gameFolder(game)).catch((e) => showFailure(e, { title: "Failed to open folder" }))
+        }
+        icon={Icon.Folder}
+        shortcut={{ modifiers: ["ctrl"], key: "f" }}
+      />
+      <Action title="Launch Game" onAction={() => launchGameWithFeedback(host, game)} icon={Icon.Play} />
+      <Action
+        title="Open Library Folder"
+        onAction={() =>
+          host.openPath(storage.library.steamapps).catch((e) => showFailure(e, { title: "Failed to open folder" }))
+        }
+        icon={Icon.HardDrive}
+      />
+      <Action.CopyToClipboard title="Copy Game Path" content={gameFolder(game)} />
+    </>
+  );
+}
+
+function LibraryGames(props: { storage: LibraryStorage }) {
+  const { storage } = props;
+  return (
+    <List navigationTitle={libraryTitle(storage.library)} searchBarPlaceholder="Search games in this library...">
+      <List.Section
+        title={`Games by Size (${storage.games.length})`}
+        subtitle={`${formatBytes(storage.usedBytes)} used by Steam`}
+      >
+        {storage.games.map(({ game, sizeBytes }) => (
+          <List.Item
+            key={game.appid}
+            title={game.name}
+            keywords={[game.appid]}
+            icon={{ source: Icon.GameController, tintColor: Color.Blue }}
+            accessories={[
+              ...(storage.usedBytes > 0 && sizeBytes
+                ? [
+                    {
+                      tag: {
+                        value: `${Math.round((sizeBytes / storage.usedBytes) * 100)}%`,
+                        color: Color.SecondaryText,
+                      },
+                    },
+                  ]
+                : []),
+              { text: sizeBytes ? formatBytes(sizeBytes) : "Unknown size" },
+            ]}
+            actions={
+              <ActionPanel>
+                <GameActions game={game} storage={storage} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+export default function SteamStorage() {
+  const [libraries, setLibraries] = useState<LibraryStorage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshTick, setRefreshTick] = useState(0);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadLibraryStorage()
+      .then(setLibraries)
+      .catch((e: unknown) => showFailure(e, { title: "Failed to read Steam libraries" }))
+      .finally(() => setIsLoading(false));
+  }, [refreshTick]);
+
+  const refreshAction = (
+    <Action
+      title="Refresh"
+      onAction={() => setRefreshTick((prev) => prev + 1)}
+      icon={Icon.ArrowClockwise}
+      shortcut={{ modifiers: ["ctrl"], key: "r" }}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search libraries and games...">
+      {libraries.map((storage) => {
+        const { library, games, usedBytes, disk } = storage;
+        const total = disk?.total ?? library.totalSize;
+        const usedFraction = disk && disk.total > 0 ? (disk.total - disk.free) / disk.total : undefined;
+        const showGames = (
+          <Action.Push title="Show Games by Size" target={<LibraryGames storage={storage} />} icon={Icon.List} />
+        );
+        return (
+          <List.Section
+            key={library.path}
+            title={libraryTitle(library)}
+            subtitle={
+              disk
+                ? `${formatBytes(disk.free)} free of ${formatBytes(disk.total)}`
+                : total
+                  ? `${formatBytes(total)} total`
+                  : undefined
+            }
+          >
+            <List.Item
+              id={`library-${library.path}`}
+              title={`${formatBytes(usedBytes)} used by Steam`}
+              subtitle={`${games.length} game${games.length === 1 ? "" : "s"}`}
+              keywords={[library.path, library.label ?? ""]}
+              icon={
+                usedFraction !== undefined
+                  ? getProgressIcon(usedFraction, usedFraction > 0.9 ? Color.Red : Color.Blue)
+                  : Icon.HardDrive
+              }
+              accessories={[
+                ...(usedFraction !== undefined
+                  ? [{ text: `${Math.round(usedFraction * 100)}% full`, tooltip: "Used space on this drive" }]
+                  : []),
+                ...(disk && disk.total > 0
+                  ? [
+                      {
+                        tag: { value: `Steam ${Math.round((usedBytes / disk.total) * 100)}%`, color: Color.Blue },
+                        tooltip: "Share of the drive used by Steam games",
+                      },
+                    ]
+                  : []),
+              ]}
+              actions={
+                <ActionPanel>
+                  {showGames}
+                  <Action
+                    title="Open Library Folder"
+                    onAction={() =>
+                      host.openPath(library.steamapps).catch((e) => showFailure(e, { title: "Failed to open folder" }))
+                    }
+                    icon={Icon.Folder}
+                    shortcut={{ modifiers: ["ctrl"], key: "f" }}
+                  />
+                  {refreshAction}
+                </ActionPanel>
+              }
+            />
+            {games.slice(0, TOP_GAMES).map(({ game, sizeBytes }) => (
+              <List.Item
+                key={`${library.path}-${game.appid}`}
+                title={game.name}
+                icon={{ source: Icon.GameController, tintColor: Color.SecondaryText }}
+                accessories={[{ text: sizeBytes ? formatBytes(sizeBytes) : "Unknown size" }]}
+                actions={
+                  <ActionPanel>
+                    {showGames}
+                    <GameActions game={game} storage={storage} />
+                    {refreshAction}
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,109 @@
+import { Action, ActionPanel, Alert, Color, Icon, List, Toast, confirmAlert, showToast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { getLoginUsers, SteamLoginUser, switchSteamAccount } from "./utils/steam";
+import { showFailure } from "./utils";
+import { getHost } from "./utils/host";
+
+const host = getHost();
+
+export default function SwitchSteamAccount() {
+  const [users, setUsers] = useState<SteamLoginUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshTick, setRefreshTick] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getLoginUsers(host)
+      .then((list) => {
+        if (!cancelled) setUsers(list);
+      })
+      .catch((e: unknown) => showFailure(e, { title: "Failed to read Steam accounts" }))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshTick]);
+
+  async function onSwitch(u: SteamLoginUser) {
+    const name = u.personaName || u.accountName;
+    if (!u.rememberPassword) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Can't switch to ${name}`,
+        message: `Steam has no saved password for ${u.accountName}. Sign in once with "Remember me" checked, then try again.`,
+      });
+      return;
+    }
+    const ok = await confirmAlert({
+      title: `Switch to ${name}?`,
+      message: "Steam will restart and close any running games.",
+      primaryAction: {
+        title: "Switch and Restart",
+        style: Alert.ActionStyle.Destructive,
+      },
+      icon: Icon.TwoPeople,
+    });
+    if (!ok) return;
+    try {
+      await showToast({
+        style: Toast.Style.Animated,
+        title: `Switching to ${name}...`,
+      });
+      await switchSteamAccount(host, u.steamId64);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Switched to ${name}`,
+        message: "Steam is restarting",
+      });
+      setRefreshTick((prev) => prev + 1);
+    } catch (e: unknown) {
+      await showFailure(e, { title: "Failed to switch account" });
+    }
+  }
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search accounts by name...">
+      <List.EmptyView
+        title="No Steam Accounts Found"
+        description="Accounts appear here after they have signed in to Steam on this computer"
+        icon={{ source: Icon.Person, tintColor: Color.SecondaryText }}
+      />
+      {users.map((u) => (
+        <List.Item
+          key={u.steamId64}
+          id={u.steamId64}
+          title={u.personaName || u.accountName}
+          subtitle={u.accountName}
+          keywords={[u.accountName, u.steamId64]}
+          icon={{
+            source: u.mostRecent ? Icon.PersonCircle : Icon.Person,
+            tintColor: u.mostRecent ? Color.Green : Color.SecondaryText,
+          }}
+          accessories={[
+            ...(u.mostRecent ? [{ tag: { value: "Most Recent", color: Color.Green } }] : []),
+            u.rememberPassword
+              ? { icon: { source: Icon.Key, tintColor: Color.Blue }, tooltip: "Password remembered" }
+              : { icon: { source: Icon.Lock, tintColor: Color.Orange }, tooltip: "Password not remembered" },
+            ...(u.lastLogin ? [{ date: u.lastLogin, tooltip: `Last login: ${u.lastLogin.toLocaleString()}` }] : []),
+          ]}
+          actions={
+            <ActionPanel>
+              <Action title="Switch to This Account" icon={Icon.TwoPeople} onAction={() => onSwitch(u)} />
+              <Action.CopyToClipboard title="Copy Account Name" content={u.accountName} />
+              <Action.CopyToClipboard title="Copy Steam Id" content={u.steamId64} />
+              <Action
+                title="Refresh Accounts"
+                onAction={() => setRefreshTick((prev) => prev + 1)}
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["ctrl"], key: "r" }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
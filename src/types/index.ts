@@ -45,6 +45,8 @@ export interface ProcessInfo {
   cpuUsage?: number;
   status?: string;
   path?: string;
+  commandLine?: string;
+  startTime?: Date;
 }
 
 /**
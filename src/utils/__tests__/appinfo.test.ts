@@ -0,0 +1,67 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { getAppCommonInfo, parseAppInfo } from "../appinfo";
+
+/**
+ * Fixtures hold two apps each, 220 (Half-Life 2) and 228980 (Steamworks Common Redistributables),
+ * with the same data in the v27, v28 and v29 layouts. v29 keeps its keys in a string table after
+ * the end-of-file sentinel.
+ */
+const fixture = (name: string) => readFileSync(join(__dirname, "..", "..", "..", "test", "fixtures", name));
+
+describe.each([27, 28, 29])("parseAppInfo v%i", (version) => {
+  const buf = fixture(`appinfo_v${version}.vdf`);
+
+  it("reads every app up to the end-of-file sentinel", () => {
+    const entries = parseAppInfo(buf);
+    expect([...entries.keys()]).toEqual(["220", "228980"]);
+  });
+
+  it("reads the header fields at their version's offsets", () => {
+    const hl2 = parseAppInfo(buf).get("220");
+    expect(hl2?.infoState).toBe(2);
+    expect(hl2?.lastUpdated).toEqual(new Date(1700000000 * 1000));
+    expect(hl2?.changeNumber).toBe(20123456);
+    expect(parseAppInfo(buf).get("228980")?.changeNumber).toBe(22000001);
+  });
+
+  it("decodes common metadata", () => {
+    const hl2 = parseAppInfo(buf).get("220");
+    expect(hl2 && getAppCommonInfo(hl2)).toEqual({
+      name: "Half-Life 2",
+      type: "Game",
+      developer: "Valve",
+      publisher: "Valve",
+      genres: ["Action"],
+      storeTags: ["FPS", "Singleplayer", "99999"],
+      releaseDate: new Date(1100563200 * 1000),
+    });
+    const redist = parseAppInfo(buf).get("228980");
+    expect(redist && getAppCommonInfo(redist)).toMatchObject({ type: "Tool", genres: [], storeTags: [] });
+  });
+
+  it("skips apps that were not asked for", () => {
+    const entries = parseAppInfo(buf, { appids: new Set(["228980"]) });
+    expect([...entries.keys()]).toEqual(["228980"]);
+  });
+});
+
+describe("parseAppInfo errors", () => {
+  it("rejects unknown versions", () => {
+    const buf = fixture("appinfo_v28.vdf"); // a fresh copy, safe to modify
+    buf.writeUInt32LE(0x07564426, 0);
+    expect(() => parseAppInfo(buf)).toThrow(/Unsupported appinfo.vdf version 0x7564426/);
+  });
+
+  it("rejects a v29 string table offset outside the file", () => {
+    const buf = fixture("appinfo_v29.vdf"); // a fresh copy, safe to modify
+    buf.writeBigInt64LE(BigInt(buf.length + 10), 8);
+    expect(() => parseAppInfo(buf)).toThrow(/Invalid string table offset/);
+  });
+
+  it("rejects an entry that runs past the end of the file", () => {
+    const buf = fixture("appinfo_v27.vdf").subarray(0, 100);
+    expect(() => parseAppInfo(buf)).toThrow(/Truncated entry for app 220/);
+  });
+});
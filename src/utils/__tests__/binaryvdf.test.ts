@@ -0,0 +1,43 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { BinaryVDFObject, parseBinaryVDF, readBinaryVDF } from "../binaryvdf";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "..", "..", "..", "test", "fixtures", name));
+
+describe("parseBinaryVDF", () => {
+  it("reads shortcuts.vdf with nested maps, strings and int32 values", () => {
+    const root = parseBinaryVDF(fixture("shortcuts.vdf"));
+    const shortcuts = root["shortcuts"] as BinaryVDFObject;
+    expect(Object.keys(shortcuts)).toEqual(["0", "1"]);
+
+    const retroArch = shortcuts["0"] as BinaryVDFObject;
+    expect(retroArch["AppName"]).toBe("RetroArch");
+    expect(retroArch["Exe"]).toBe('"C:\\Emulators\\RetroArch\\retroarch.exe"');
+    expect(retroArch["appid"]).toBe(-1234567890);
+    expect(retroArch["tags"]).toEqual({ "0": "Emulators", "1": "favorite" });
+
+    const legacy = shortcuts["1"] as BinaryVDFObject;
+    expect(legacy["appid"]).toBeUndefined();
+    expect(legacy["IsHidden"]).toBe(1);
+    expect(legacy["tags"]).toEqual({});
+  });
+
+  it("resolves keys through a string table", () => {
+    // { a: "x", nested: { b: 7 } } with keys as uint32 indexes into ["nested", "a", "b"]
+    const buf = Buffer.from([0x01, 1, 0, 0, 0, 0x78, 0x00, 0x00, 0, 0, 0, 0, 0x02, 2, 0, 0, 0, 7, 0, 0, 0, 0x08, 0x08]);
+    const { value, end } = readBinaryVDF(buf, 0, { stringTable: ["nested", "a", "b"] });
+    expect(value).toEqual({ a: "x", nested: { b: 7 } });
+    expect(end).toBe(buf.length);
+  });
+
+  it("rejects string table indexes out of range", () => {
+    const buf = Buffer.from([0x01, 5, 0, 0, 0, 0x78, 0x00, 0x08]);
+    expect(() => readBinaryVDF(buf, 0, { stringTable: ["a"] })).toThrow(/index 5 out of range/);
+  });
+
+  it("rejects truncated input", () => {
+    expect(() => parseBinaryVDF(Buffer.from([0x01, 0x61, 0x00, 0x78]))).toThrow(/Unterminated string/);
+    expect(() => parseBinaryVDF(Buffer.from([0x02, 0x61, 0x00, 1, 0]))).toThrow(/Unexpected end of input/);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyScore, scoreFields } from "../fuzzy";
+
+describe("fuzzyScore", () => {
+  it.each([
+    ["cs2", "Counter-Strike 2"],
+    ["rdr2", "Red Dead Redemption 2"],
+    ["botw", "The Legend of Zelda: Breath of the Wild"],
+    ["ff7", "Final Fantasy VII"],
+  ])("matches the acronym %s to %s", (query, title) => {
+    expect(fuzzyScore(query, title)).toBeGreaterThan(0);
+  });
+
+  it("tells numbered sequels apart", () => {
+    expect(fuzzyScore("ff7", "Final Fantasy VI")).toBe(0);
+    expect(fuzzyScore("rdr2", "Red Dead Redemption 2")).toBeGreaterThan(fuzzyScore("rdr2", "Red Dead Redemption"));
+  });
+
+  it.each([
+    ["v", "Valheim"],
+    ["v", "Victoria 3"],
+    ["vi", "Viewfinder"],
+    ["vi", "Victoria 3"],
+    ["x", "XCOM 2"],
+    ["i", "Inscryption"],
+    ["ix", "Ixion"],
+  ])("keeps the single-letter prefix %s for %s", (query, title) => {
+    expect(fuzzyScore(query, title)).toBe(900);
+  });
+
+  it("reads Roman numerals in titles as digits", () => {
+    expect(fuzzyScore("final fantasy 7", "Final Fantasy VII")).toBe(1000);
+    expect(fuzzyScore("final fantasy vii", "Final Fantasy VII")).toBe(1000);
+    expect(fuzzyScore("half life 2", "Half-Life II")).toBe(1000);
+    expect(fuzzyScore("gta 5", "Grand Theft Auto V")).toBeGreaterThan(0);
+  });
+
+  it("leaves a title's first word alone", () => {
+    expect(fuzzyScore("x", "X-Men Origins")).toBe(900);
+    expect(fuzzyScore("i am bread", "I Am Bread")).toBe(1000);
+  });
+});
+
+describe("scoreFields", () => {
+  it("only takes exact or prefix matches on exact fields", () => {
+    const fields = [{ text: "220", weight: 1, exact: true }];
+    expect(scoreFields("220", fields)).toBe(1000);
+    expect(scoreFields("22", fields)).toBe(700);
+    expect(scoreFields("20", fields)).toBe(0);
+  });
+});
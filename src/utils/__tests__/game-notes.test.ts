@@ -0,0 +1,68 @@
+import { LocalStorage } from "@raycast/api";
+import { beforeEach, describe, expect, it } from "vitest";
+import { allTags, groupByStatus, groupByTag, loadGameNotes, saveGameNote, statusSectionRank } from "../game-notes";
+
+beforeEach(async () => {
+  await LocalStorage.clear();
+});
+
+describe("saveGameNote", () => {
+  it("trims and dedupes tags and the note", async () => {
+    const store = await saveGameNote("220", { tags: [" co-op", "short ", "", "co-op", "  "], note: "  Chapter 3\n" });
+    expect(store["220"]).toEqual({ tags: ["co-op", "short"], note: "Chapter 3" });
+    expect(await loadGameNotes()).toEqual(store);
+  });
+
+  it("only keeps the completion date with the completed status", async () => {
+    const completedAt = "2026-01-01T00:00:00.000Z";
+    let store = await saveGameNote("220", { tags: [], status: "completed", completedAt });
+    expect(store["220"]).toMatchObject({ status: "completed", completedAt });
+
+    store = await saveGameNote("220", { tags: [], status: "playing", completedAt });
+    expect(store["220"].completedAt).toBeUndefined();
+  });
+
+  it("removes a game's entry once it has no tags, note or status", async () => {
+    await saveGameNote("220", { tags: ["co-op"], note: "Chapter 3" });
+    await saveGameNote("570", { tags: [], status: "dropped" });
+
+    const store = await saveGameNote("220", { tags: [" "], note: "   " });
+    expect(Object.keys(store)).toEqual(["570"]);
+    expect(await loadGameNotes()).toEqual(store);
+  });
+});
+
+describe("groupings", () => {
+  const games = [{ appid: "220" }, { appid: "570" }, { appid: "620" }];
+  const store = {
+    "220": { tags: ["story", "co-op"], status: "completed" as const },
+    "570": { tags: ["co-op"], status: "playing" as const },
+    "620": { tags: [], note: "Try the co-op campaign" },
+  };
+
+  it("lists every tag once, sorted", () => {
+    expect(allTags(store)).toEqual(["co-op", "story"]);
+  });
+
+  it("lists a game under each of its tags, untagged ones apart", () => {
+    expect(groupByTag(games, store)).toEqual({
+      story: [{ appid: "220" }],
+      "co-op": [{ appid: "220" }, { appid: "570" }],
+      Untagged: [{ appid: "620" }],
+    });
+  });
+
+  it("groups by status in workflow order, games without one last", () => {
+    const grouped = groupByStatus(games, store);
+    expect(grouped).toEqual({
+      Completed: [{ appid: "220" }],
+      Playing: [{ appid: "570" }],
+      "No Status": [{ appid: "620" }],
+    });
+    expect(Object.keys(grouped).sort((a, b) => statusSectionRank(a) - statusSectionRank(b))).toEqual([
+      "Playing",
+      "Completed",
+      "No Status",
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * In-memory stand-ins for the parts of @raycast/api the utils use. The real package only
+ * resolves inside Raycast; vitest.config.ts points imports here.
+ */
+export class Cache {
+  private store = new Map<string, string>();
+
+  constructor(options?: { namespace?: string }) {
+    void options;
+  }
+
+  get(key: string): string | undefined {
+    return this.store.get(key);
+  }
+
+  set(key: string, value: string): void {
+    this.store.set(key, value);
+  }
+
+  remove(key: string): boolean {
+    return this.store.delete(key);
+  }
+}
+
+const storage = new Map<string, string>();
+
+export const LocalStorage = {
+  async getItem<T>(key: string): Promise<T | undefined> {
+    return storage.get(key) as T | undefined;
+  },
+  async setItem(key: string, value: string): Promise<void> {
+    storage.set(key, value);
+  },
+  async removeItem(key: string): Promise<void> {
+    storage.delete(key);
+  },
+  async clear(): Promise<void> {
+    storage.clear();
+  },
+};
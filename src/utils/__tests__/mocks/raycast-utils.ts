@@ -0,0 +1,3 @@
+export async function showFailureToast(): Promise<void> {
+  // no toasts outside Raycast
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { matchesFilters, PickCandidate, PickFilters, pickWeight, pickWeighted } from "../picker";
+import { SteamGame } from "../steam";
+
+const DAY = 86400000;
+const NOW = Date.UTC(2026, 0, 1);
+
+function candidate(appid: string, overrides: Partial<PickCandidate> = {}): PickCandidate {
+  return {
+    game: { appid, name: `Game ${appid}` } as SteamGame,
+    favorite: false,
+    playtimeMinutes: 0,
+    drive: "C:",
+    genres: [],
+    tags: [],
+    ...overrides,
+  };
+}
+
+const ANY: PickFilters = { favoritesOnly: false, played: "any" };
+
+describe("matchesFilters", () => {
+  const played = candidate("1", { playtimeMinutes: 300, sizeBytes: 20 * 1024 ** 3, drive: "D:", tags: ["co-op"] });
+  const fresh = candidate("2", { favorite: true, sizeBytes: 2 * 1024 ** 3 });
+
+  it.each<[string, PickFilters, string[]]>([
+    ["no filters", ANY, ["1", "2"]],
+    ["favorites", { ...ANY, favoritesOnly: true }, ["2"]],
+    ["never played", { ...ANY, played: "never" }, ["2"]],
+    ["under 5 hours", { ...ANY, played: "under", maxHours: 5 }, ["2"]],
+    ["under 6 hours", { ...ANY, played: "under", maxHours: 6 }, ["1", "2"]],
+    ["under an unset number of hours", { ...ANY, played: "under" }, []],
+    ["at most 10 GB", { ...ANY, maxSizeGb: 10 }, ["2"]],
+    ["drive D:", { ...ANY, drive: "D:" }, ["1"]],
+    ["tag co-op", { ...ANY, tag: "co-op" }, ["1"]],
+    ["favorites on drive D:", { ...ANY, favoritesOnly: true, drive: "D:" }, []],
+  ])("%s", (_, filters, expected) => {
+    expect([played, fresh].filter((c) => matchesFilters(c, filters)).map((c) => c.game.appid)).toEqual(expected);
+  });
+});
+
+describe("pickWeight", () => {
+  it("grows by one per month since last played, up to a year", () => {
+    expect(pickWeight(new Date(NOW), NOW)).toBe(1);
+    expect(pickWeight(new Date(NOW - 30 * DAY), NOW)).toBe(2);
+    expect(pickWeight(new Date(NOW - 1000 * DAY), NOW)).toBe(1 + 365 / 30);
+    expect(pickWeight(undefined, NOW)).toBe(1 + 365 / 30);
+    // A clock that is behind the last played date gives no negative weight
+    expect(pickWeight(new Date(NOW + DAY), NOW)).toBe(1);
+  });
+});
+
+describe("pickWeighted", () => {
+  const items = ["recent", "old"];
+  const weight = (item: string) => (item === "recent" ? 1 : 3);
+
+  it.each([
+    [0, "recent"],
+    [0.24, "recent"],
+    [0.25, "old"],
+    [0.999, "old"],
+  ])("maps random() = %d to %s", (r, expected) => {
+    expect(pickWeighted(items, weight, () => r)).toBe(expected);
+  });
+
+  it("returns undefined when there is nothing to pick", () => {
+    expect(pickWeighted([], weight, () => 0.5)).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { LocalStorage } from "@raycast/api";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createFakeHost } from "../host";
+import {
+  deleteLaunchProfile,
+  getLastUsedProfile,
+  launchWithProfile,
+  loadLaunchProfiles,
+  saveLaunchProfile,
+  setLastUsedProfile,
+} from "../profiles";
+
+beforeEach(async () => {
+  await LocalStorage.clear();
+});
+
+describe("launch profiles", () => {
+  it("makes the profile used last the primary one", async () => {
+    await saveLaunchProfile("220", { name: "Safe Mode", args: "-safe" });
+    let store = await saveLaunchProfile("220", { name: "Console", args: "-console" });
+    const [safe, consoleProfile] = store["220"].profiles;
+    expect(getLastUsedProfile(store, "220")).toBeUndefined();
+
+    const host = createFakeHost({ steamPath: "/steam" });
+    await launchWithProfile(host, "220", consoleProfile);
+    store = await setLastUsedProfile("220", consoleProfile.id);
+    expect(host.calls).toEqual([{ type: "openUrl", url: "steam://run/220//-console/" }]);
+    expect(getLastUsedProfile(store, "220")).toEqual(consoleProfile);
+
+    // Stored under "steam-launch-profiles", so the next session sees the same primary profile
+    expect(JSON.parse((await LocalStorage.getItem<string>("steam-launch-profiles")) ?? "{}")).toEqual(store);
+    expect(getLastUsedProfile(await loadLaunchProfiles(), "220")).toEqual(consoleProfile);
+
+    store = await setLastUsedProfile("220", safe.id);
+    expect(getLastUsedProfile(store, "220")).toEqual(safe);
+    store = await setLastUsedProfile("220", undefined);
+    expect(getLastUsedProfile(store, "220")).toBeUndefined();
+  });
+
+  it("replaces a profile with the same id and forgets a deleted primary profile", async () => {
+    let store = await saveLaunchProfile("220", { name: "Console", args: "-console" });
+    const { id } = store["220"].profiles[0];
+    store = await saveLaunchProfile("220", { id, name: "Console", args: "-console -dev" });
+    expect(store["220"].profiles).toEqual([{ id, name: "Console", args: "-console -dev" }]);
+
+    await setLastUsedProfile("220", id);
+    store = await deleteLaunchProfile("220", id);
+    expect(store["220"]).toBeUndefined();
+    expect(await loadLaunchProfiles()).toEqual({});
+  });
+});
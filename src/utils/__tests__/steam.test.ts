@@ -0,0 +1,437 @@
+import {
+  cpSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeHost, FakeSteamHost } from "../host";
+import {
+  decodeStateFlags,
+  findLibraryIssues,
+  getAppMetadata,
+  getAppUsage,
+  getCurrentSteamUser,
+  getLaunchOptions,
+  getLibraryFolders,
+  getNonSteamShortcuts,
+  getRunningGames,
+  getSteamInstallPath,
+  getSteamUserDisplayName,
+  isInstallFolderClaimed,
+  launchSteamGame,
+  launchSteamShortcut,
+  listInstalledGames,
+  quitGame,
+  readAppManifest,
+  removeLibraryFiles,
+  setLaunchOptions,
+  switchSteamAccount,
+} from "../steam";
+import { loadPlayJournal, recordLaunch } from "../sessions";
+import { parseVDF, VDFObject } from "../vdf";
+
+const FIXTURES = join(__dirname, "..", "..", "..", "test", "fixtures");
+const STEAM_ID = "76561197960287930";
+
+/**
+ * The fixture Steam directory is copied to a temporary folder, since libraryfolders.vdf needs
+ * absolute paths and some tests write to it. The second library lives next to the Steam folder.
+ */
+let root: string;
+let steamPath: string;
+let libraryPath: string;
+let host: FakeSteamHost;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "steam-utilities-"));
+  steamPath = join(root, "Steam");
+  libraryPath = join(root, "SteamLibrary");
+  cpSync(join(FIXTURES, "steam"), steamPath, { recursive: true });
+  cpSync(join(FIXTURES, "steam-library"), libraryPath, { recursive: true });
+  writeFileSync(
+    join(steamPath, "steamapps", "libraryfolders.vdf"),
+    `"libraryfolders"
+{
+	"0"
+	{
+		"path"		"${steamPath}"
+		"apps"
+		{
+			"220"		"6543210987"
+		}
+	}
+	"1"
+	{
+		"path"		"${libraryPath}"
+		"apps"
+		{
+			"570"		"40000000000"
+		}
+	}
+}
+`,
+  );
+  host = createFakeHost({ steamPath });
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("discovery to launch", () => {
+  it("finds Steam, the signed-in account and games across libraries, then launches one", async () => {
+    const paths = await getSteamInstallPath(host);
+    expect(paths?.steamPath).toBe(steamPath);
+
+    const user = await getCurrentSteamUser(host, paths);
+    expect(user).toBe(STEAM_ID);
+    expect(await getSteamUserDisplayName(host, STEAM_ID, paths)).toBe("Gabe");
+
+    const games = await listInstalledGames(steamPath);
+    expect(games.map((g) => [g.appid, g.name, g.libraryPath])).toEqual([
+      ["220", "Half-Life 2", steamPath],
+      ["570", "Dota 2", libraryPath],
+    ]);
+    expect(games[0].status.kind).toBe("ready");
+    expect(games[0].sizeOnDisk).toBe(6543210987);
+
+    const usage = await getAppUsage(host, STEAM_ID, paths);
+    expect(usage["220"]).toEqual({
+      playtimeMinutes: 754,
+      playtime2wksMinutes: 90,
+      lastPlayed: new Date(1700003600 * 1000),
+    });
+    expect(usage["570"]).toBeUndefined();
+
+    const metadata = await getAppMetadata(
+      steamPath,
+      games.map((g) => g.appid),
+    );
+    expect(metadata["220"]).toMatchObject({ type: "Game", developer: "Valve", genres: ["Action"] });
+    expect(metadata["570"]).toBeUndefined();
+
+    await launchSteamGame(host, games[0].appid);
+    expect(host.calls).toEqual([{ type: "openUrl", url: "steam://rungameid/220" }]);
+  });
+
+  it("passes one-off arguments through the protocol URL", async () => {
+    await launchSteamGame(host, "220", "-console +map d1_trainstation_01");
+    expect(host.calls).toEqual([{ type: "openUrl", url: "steam://run/220//-console%20%2Bmap%20d1_trainstation_01/" }]);
+  });
+
+  it("falls back to steam -applaunch when the protocol handler fails", async () => {
+    host.openUrl = async () => {
+      throw new Error("steam:// is not registered");
+    };
+    await launchSteamGame(host, "220", '-w 1920 "+exec my config.cfg"');
+    expect(host.calls).toEqual([
+      { type: "startSteam", args: ["-applaunch", "220", "-w", "1920", "+exec my config.cfg"] },
+    ]);
+    expect(host.processes.map((p) => p.name)).toEqual(["steam"]);
+  });
+
+  it("reads and launches non-Steam shortcuts", async () => {
+    const shortcuts = await getNonSteamShortcuts(host, STEAM_ID);
+    expect(shortcuts.map((s) => [s.name, s.exe, s.hidden])).toEqual([
+      ["RetroArch", "C:\\Emulators\\RetroArch\\retroarch.exe", false],
+      ["Legacy Tool", "C:\\Tools\\legacy.exe", true],
+    ]);
+    expect(shortcuts[0].tags).toEqual(["Emulators", "favorite"]);
+
+    await launchSteamShortcut(host, shortcuts[0]);
+    expect(host.calls).toEqual([{ type: "openUrl", url: `steam://rungameid/${shortcuts[0].gameId}` }]);
+  });
+});
+
+describe("install status", () => {
+  it.each([
+    [4, "ready", ["FullyInstalled"], false, false],
+    [6, "updateRequired", ["UpdateRequired", "FullyInstalled"], true, false],
+    [1026, "updating", ["UpdateRequired", "UpdateStarted"], false, true],
+    [516, "updatePaused", ["FullyInstalled", "UpdatePaused"], true, false],
+    [0, "notInstalled", [], false, false],
+  ])("decodes StateFlags %i as %s", (flags, kind, active, needsAttention, busy) => {
+    expect(decodeStateFlags(flags)).toMatchObject({ kind, flags, active, needsAttention, busy });
+  });
+
+  it("treats a manifest without StateFlags as fully installed", () => {
+    const manifest = join(steamPath, "steamapps", "appmanifest_220.acf");
+    writeFileSync(manifest, readFileSync(manifest, "utf8").replace(/\t"StateFlags".*\n/, ""));
+    expect(readFileSync(manifest, "utf8")).not.toContain("StateFlags");
+    const game = readAppManifest(manifest, steamPath);
+    expect(game?.status.kind).toBe("ready");
+    expect(game?.installed).toBe(true);
+  });
+});
+
+describe("running games", () => {
+  it("detects a game from its executable path and quits it", async () => {
+    host.processes.push(
+      { pid: 10, name: "steam", path: join(steamPath, "steam") },
+      { pid: 20, name: "hl2.exe", path: join(steamPath, "steamapps", "common", "Half-Life 2", "hl2.exe") },
+      { pid: 30, name: "bash", commandLine: `bash -c "ls '${join(libraryPath, "steamapps", "common")}'"` },
+    );
+    const games = await listInstalledGames(steamPath);
+
+    const running = await getRunningGames(host, games);
+    expect(running.map((r) => [r.appid, r.processes.map((p) => p.pid)])).toEqual([["220", [20]]]);
+
+    expect(await quitGame(host, running[0], { timeoutMs: 0 })).toBe(true);
+    expect(host.calls).toEqual([{ type: "kill", target: 20, force: false }]);
+    expect(host.processes.map((p) => p.pid)).toEqual([10, 30]);
+  });
+
+  it("ignores compatibility tools and prefers the most specific install folder", async () => {
+    const common = join(steamPath, "steamapps", "common");
+    const games = [
+      { appid: "220", libraryPath: steamPath, installdir: "Half-Life 2" },
+      { appid: "1493710", libraryPath: steamPath, installdir: "Proton - Experimental" },
+      { appid: "1628350", libraryPath: steamPath, installdir: "SteamLinuxRuntime_sniper" },
+      { appid: "228980", libraryPath: steamPath, installdir: "Steamworks Shared", appType: "Tool" },
+      // A mod installed inside its base game's folder
+      { appid: "380", libraryPath: steamPath, installdir: join("Half-Life 2", "episodic") },
+    ];
+    host.processes.push(
+      {
+        pid: 40,
+        name: "wine64-preloader",
+        path: join(common, "Proton - Experimental", "files", "bin", "wine64-preloader"),
+        commandLine: `${join(common, "Half-Life 2", "hl2.exe")} -game episodic`,
+      },
+      { pid: 41, name: "pressure-vessel", path: join(common, "SteamLinuxRuntime_sniper", "pressure-vessel") },
+      { pid: 42, name: "hl2.exe", path: join(common, "Half-Life 2", "episodic", "bin", "hl2.exe") },
+      { pid: 43, name: "setup.exe", path: join(common, "Steamworks Shared", "_CommonRedist", "setup.exe") },
+    );
+
+    const running = await getRunningGames(host, games);
+    expect(running.map((r) => [r.appid, r.processes.map((p) => p.pid)])).toEqual([
+      ["220", [40]],
+      ["380", [42]],
+    ]);
+  });
+});
+
+describe("launch options", () => {
+  it("reads and writes localconfig.vdf only while Steam is closed", async () => {
+    const paths = await getSteamInstallPath(host);
+    expect(await getLaunchOptions(host, STEAM_ID, "220", paths)).toBe("-novid");
+
+    host.processes.push({ pid: 10, name: "steam" });
+    await expect(setLaunchOptions(host, STEAM_ID, "220", "-dx11", paths)).rejects.toThrow(/Steam is running/);
+
+    host.processes.length = 0;
+    await setLaunchOptions(host, STEAM_ID, "220", "-dx11", paths);
+    expect(await getLaunchOptions(host, STEAM_ID, "220", paths)).toBe("-dx11");
+    const written = readFileSync(join(steamPath, "userdata", "22202", "config", "localconfig.vdf"), "utf8");
+    expect(written).toContain('"LaunchOptions"\t\t"-dx11"');
+    expect(written).toContain('"Playtime"\t\t"754"');
+  });
+});
+
+describe("account switching", () => {
+  const THIRD_ID = "76561197960265730";
+
+  it("makes only the chosen account the auto-login one and restarts Steam", async () => {
+    host.processes.push({ pid: 10, name: "steam" });
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    try {
+      const switching = switchSteamAccount(host, THIRD_ID);
+      await vi.runAllTimersAsync();
+      await switching;
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const users = parseVDF(readFileSync(join(steamPath, "config", "loginusers.vdf"), "utf8"))["users"] as VDFObject;
+    expect(Object.entries(users).map(([id, u]) => [id, (u as VDFObject)["MostRecent"]])).toEqual([
+      [STEAM_ID, "0"],
+      ["76561197960265729", "0"],
+      [THIRD_ID, "1"],
+    ]);
+    expect((users[THIRD_ID] as VDFObject)["AllowAutoLogin"]).toBe("1");
+    expect(host.calls).toEqual([
+      { type: "kill", target: "steam", force: true },
+      { type: "writeRegistry", key: "HKCU\\Software\\Valve\\Steam", value: "AutoLoginUser", data: "third" },
+      { type: "startSteam", args: [] },
+    ]);
+    expect(await getCurrentSteamUser(host)).toBe(THIRD_ID);
+  });
+
+  it("refuses an account without a remembered password before stopping Steam", async () => {
+    host.processes.push({ pid: 10, name: "steam" });
+    await expect(switchSteamAccount(host, "76561197960265729")).rejects.toThrow(/no saved password for second/);
+    expect(host.calls).toEqual([]);
+    expect(host.processes.map((p) => p.pid)).toEqual([10]);
+  });
+});
+
+describe("library cleanup", () => {
+  it("does not report a folder whose manifest is half-written as orphaned", () => {
+    const steamapps = join(steamPath, "steamapps");
+    mkdirSync(join(steamapps, "common", "Leftovers"));
+    mkdirSync(join(steamapps, "common", "Portal 2"));
+    // Steam is still writing this manifest: installdir is there, the closing braces are not
+    writeFileSync(
+      join(steamapps, "appmanifest_620.acf"),
+      '"AppState"\n{\n\t"appid"\t\t"620"\n\t"installdir"\t\t"Portal 2"\n',
+    );
+
+    const orphans = findLibraryIssues(steamPath, true).filter((i) => i.kind === "orphanFolder");
+    expect(orphans.map((i) => i.kind === "orphanFolder" && i.folder)).toEqual([join(steamapps, "common", "Leftovers")]);
+  });
+
+  it("re-checks claims against manifests on disk", () => {
+    const folder = join(steamPath, "steamapps", "common", "Half-Life 2");
+    const manifest = join(steamPath, "steamapps", "appmanifest_220.acf");
+    expect(isInstallFolderClaimed(folder, { caseSensitive: true })).toBe(true);
+    expect(isInstallFolderClaimed(folder, { caseSensitive: true, except: manifest })).toBe(false);
+    expect(isInstallFolderClaimed(join(steamPath, "steamapps", "common", "half-life 2"), { caseSensitive: true })).toBe(
+      false,
+    );
+    expect(
+      isInstallFolderClaimed(join(steamPath, "steamapps", "common", "half-life 2"), { caseSensitive: false }),
+    ).toBe(true);
+  });
+
+  // Point the Steam folder's entry in libraryfolders.vdf somewhere else
+  function relistSteamFolder(path: string, extra = "") {
+    const vdf = join(steamPath, "steamapps", "libraryfolders.vdf");
+    writeFileSync(
+      vdf,
+      readFileSync(vdf, "utf8").replace(
+        `"path"\t\t"${steamPath}"`,
+        `"path"\t\t"${path.replace(/\\/g, "\\\\")}"${extra}`,
+      ),
+    );
+  }
+
+  it("recognises the Steam folder however libraryfolders.vdf spells it", () => {
+    // The registry gives forward slashes, libraryfolders.vdf backslashes and other casing
+    relistSteamFolder(steamPath.replace(/\//g, "\\").toUpperCase(), '\n\t\t"label"\t\t"Main"');
+    expect(getLibraryFolders(steamPath, false).map((l) => [l.path, l.label])).toEqual([
+      [steamPath, "Main"],
+      [libraryPath, undefined],
+    ]);
+
+    relistSteamFolder(`${root}/./Steam/`);
+    expect(getLibraryFolders(steamPath, true).map((l) => l.path)).toEqual([steamPath, libraryPath]);
+    expect(findLibraryIssues(steamPath, true).filter((i) => i.kind === "duplicate")).toEqual([]);
+  });
+
+  it("only reports copies in different folders as duplicates", () => {
+    symlinkSync(steamPath, join(root, "SteamLink"));
+    relistSteamFolder(join(root, "SteamLink"));
+    expect(getLibraryFolders(steamPath, true)).toHaveLength(3);
+    expect(findLibraryIssues(steamPath, true).filter((i) => i.kind === "duplicate")).toEqual([]);
+
+    cpSync(
+      join(steamPath, "steamapps", "common", "Half-Life 2"),
+      join(libraryPath, "steamapps", "common", "Half-Life 2"),
+      {
+        recursive: true,
+      },
+    );
+    cpSync(join(steamPath, "steamapps", "appmanifest_220.acf"), join(libraryPath, "steamapps", "appmanifest_220.acf"));
+    const duplicates = findLibraryIssues(steamPath, true).filter((i) => i.kind === "duplicate");
+    expect(duplicates.map((i) => i.kind === "duplicate" && i.copies.map((g) => g.libraryPath))).toEqual([
+      [steamPath, libraryPath],
+    ]);
+  });
+
+  it("only deletes inside the libraries' steamapps folders, with Steam closed for installed copies", async () => {
+    const other = join(root, "Other", "steamapps", "common", "Game");
+    mkdirSync(other, { recursive: true });
+    await expect(removeLibraryFiles(host, steamPath, { folder: other }, true)).rejects.toThrow(/Refusing/);
+    await expect(
+      removeLibraryFiles(
+        host,
+        steamPath,
+        { folder: `${libraryPath}/steamapps/common/../../steamapps/common/Other` },
+        true,
+      ),
+    ).rejects.toThrow(/Refusing/);
+    await expect(
+      removeLibraryFiles(host, steamPath, { folder: join(libraryPath, "steamapps", "dota 2 beta") }, true),
+    ).rejects.toThrow(/Refusing/);
+    await expect(
+      removeLibraryFiles(
+        host,
+        steamPath,
+        { manifestPath: join(root, "Other", "steamapps", "appmanifest_570.acf") },
+        true,
+      ),
+    ).rejects.toThrow(/Refusing/);
+    expect(existsSync(other)).toBe(true);
+
+    const copy = {
+      folder: join(libraryPath, "steamapps", "common", "dota 2 beta"),
+      manifestPath: join(libraryPath, "steamapps", "appmanifest_570.acf"),
+    };
+    host.processes.push({ pid: 10, name: "steam" });
+    await expect(removeLibraryFiles(host, steamPath, copy, true)).rejects.toThrow(/Steam is running/);
+    expect(existsSync(copy.folder) && existsSync(copy.manifestPath)).toBe(true);
+
+    host.processes.length = 0;
+    await removeLibraryFiles(host, steamPath, copy, true);
+    expect(existsSync(copy.folder) || existsSync(copy.manifestPath)).toBe(false);
+  });
+});
+
+describe("caches", () => {
+  it("only parses appinfo.vdf again after it changed", async () => {
+    const appInfoPath = join(steamPath, "appcache", "appinfo.vdf");
+    // Whole seconds, so restoring the mtime below restores it exactly
+    utimesSync(appInfoPath, 1700000000, 1700000000);
+    expect((await getAppMetadata(steamPath, ["220"]))["220"]?.name).toBe("Half-Life 2");
+
+    // Same mtime: served from the cache, so the unreadable content is never parsed
+    const { atime, mtime } = statSync(appInfoPath);
+    writeFileSync(appInfoPath, "not appinfo");
+    utimesSync(appInfoPath, atime, mtime);
+    const cached = await getAppMetadata(steamPath, ["220"]);
+    expect(cached["220"]?.name).toBe("Half-Life 2");
+    expect(cached["220"]?.releaseDate).toEqual(new Date(1100563200 * 1000));
+
+    // Newer mtime: parsed again
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    utimesSync(appInfoPath, atime, new Date(mtime.getTime() + 60000));
+    expect(await getAppMetadata(steamPath, ["220"])).toEqual({});
+    expect(error).toHaveBeenCalledWith("Failed to read appinfo.vdf", expect.any(Error));
+    error.mockRestore();
+  });
+
+  it("forgets manifests that were deleted", async () => {
+    const manifestPath = join(libraryPath, "steamapps", "appmanifest_570.acf");
+    const original = readFileSync(manifestPath, "utf8");
+    utimesSync(manifestPath, 1700000000, 1700000000);
+    expect((await listInstalledGames(steamPath)).map((g) => g.name)).toEqual(["Half-Life 2", "Dota 2"]);
+
+    unlinkSync(manifestPath);
+    expect((await listInstalledGames(steamPath)).map((g) => g.name)).toEqual(["Half-Life 2"]);
+
+    // Re-created with the old mtime; a stale index entry would still report the old name
+    writeFileSync(manifestPath, original.replace('"Dota 2"', '"Dota 2 Reborn"'));
+    utimesSync(manifestPath, 1700000000, 1700000000);
+    expect((await listInstalledGames(steamPath)).map((g) => g.name)).toEqual(["Half-Life 2", "Dota 2 Reborn"]);
+  });
+});
+
+describe("play journal", () => {
+  it("looks up the signed-in account for the playtime baseline", async () => {
+    await recordLaunch(host, { appid: "220", name: "Half-Life 2" });
+    const journal = await loadPlayJournal();
+    expect(journal.open).toEqual([
+      expect.objectContaining({ appid: "220", name: "Half-Life 2", playtimeAtStart: 754 }),
+    ]);
+  });
+});
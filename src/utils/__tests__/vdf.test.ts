@@ -0,0 +1,197 @@
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  parseVDF,
+  parseVDFDocument,
+  parseVDFFile,
+  parseVDFWithDirectives,
+  setVDFDocumentValue,
+  stringifyVDFDocument,
+  VDFParseError,
+  writeVDFFile,
+} from "../vdf";
+
+const CONFIG = `// written by Steam
+"UserLocalConfigStore"
+{
+	"apps"
+	{
+		"220"
+		{
+			"LaunchOptions"		"-novid"
+			"Path"		"C:\\\\Games\\\\hl2"
+		}
+	}
+}
+`;
+
+describe("parseVDF", () => {
+  it("reads unquoted tokens and escapes in quoted ones", () => {
+    const text = `Root
+{
+	name Half-Life// comment
+	"quote"		"say \\"hi\\""
+	"path"		"C:\\\\Games\\\\hl2"
+	"lines"		"a\\nb\\tc"
+}`;
+    expect(parseVDF(text)).toEqual({
+      Root: { name: "Half-Life", quote: 'say "hi"', path: "C:\\Games\\hl2", lines: "a\nb\tc" },
+    });
+  });
+
+  it("keeps only entries whose conditional holds", () => {
+    const text = `"Root"
+{
+	"exe"		"hl2.exe"	[$WIN32]
+	"exe"		"hl2_linux"	[$LINUX]
+	"overlay"		"1"	[!$X360]
+	"desktop"		"1"	[$WIN32||$OSX]
+	"windows"	[$WINDOWS]
+	{
+		"dx"		"11"
+	}
+	"console"	[$X360&&$WINDOWS]
+	{
+		"pad"		"1"
+	}
+}`;
+    expect(parseVDF(text, { conditions: { LINUX: true } })).toEqual({
+      Root: { exe: "hl2_linux", overlay: "1" },
+    });
+    expect(parseVDF(text, { conditions: { WIN32: true, WINDOWS: true } })).toEqual({
+      Root: { exe: "hl2.exe", overlay: "1", desktop: "1", windows: { dx: "11" } },
+    });
+  });
+
+  it("overwrites duplicate keys or collects them into arrays", () => {
+    const text = `"Root"
+{
+	"tag"		"a"
+	"tag"		"b"
+	"tag"	{ "name" "c" }
+}`;
+    expect(parseVDF(text)).toEqual({ Root: { tag: { name: "c" } } });
+    expect(parseVDF(text, { duplicateKeys: "array" })).toEqual({ Root: { tag: ["a", "b", { name: "c" }] } });
+  });
+
+  it("returns #base and #include directives and merges what they resolve to", () => {
+    const text = `#base "defaults.vdf"
+#include "overrides.vdf"
+"Root"
+{
+	"fov"		"90"
+	"hud"		"minimal"
+}`;
+    expect(parseVDFWithDirectives(text).directives).toEqual([
+      { kind: "#base", path: "defaults.vdf" },
+      { kind: "#include", path: "overrides.vdf" },
+    ]);
+    const files: Record<string, string> = {
+      "defaults.vdf": `"Root" { "fov" "75" "sensitivity" "3" }`,
+      "overrides.vdf": `"Root" { "hud" "full" }`,
+    };
+    const root = parseVDF(text, { include: (path) => parseVDF(files[path]) });
+    // #base only fills in missing keys, #include replaces them
+    expect(root).toEqual({ Root: { fov: "90", hud: "full", sensitivity: "3" } });
+  });
+
+  it.each([
+    [`"Root"\n{\n  "key"\n}`, "Unexpected '}' after key \"key\"", 4, 1],
+    [`"Root"\n{\n  "key" "value\n}`, "Unterminated string", 3, 9],
+    [`"Root"\n{\n  "key" "value"\n`, "Expected '}' before end of input", 4, 1],
+    [`"Root" "value"\n}`, "Unexpected '}'", 2, 1],
+    [`"Root"\n{\n  "key" "value" [$WIN32\n}`, "Unterminated conditional", 3, 17],
+  ])("reports the position of malformed input: %j", (text, message, line, column) => {
+    let error: unknown;
+    try {
+      parseVDF(text);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(VDFParseError);
+    expect(error).toMatchObject({ line, column, message: `${message} at line ${line}, column ${column}` });
+  });
+});
+
+describe("parseVDFFile", () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = mkdtempSync(join(tmpdir(), "steam-utilities-vdf-"));
+    mkdirSync(join(folder, "cfg"));
+  });
+
+  afterEach(() => {
+    rmSync(folder, { recursive: true, force: true });
+  });
+
+  it("resolves directives relative to the including file and skips missing ones", async () => {
+    writeFileSync(join(folder, "game.vdf"), `#base "cfg/base.vdf"\n#include "missing.vdf"\n"Game" { "name" "hl2" }`);
+    writeFileSync(join(folder, "cfg", "base.vdf"), `#include "extra.vdf"\n"Game" { "name" "base" "icon" "hl2.ico" }`);
+    writeFileSync(join(folder, "cfg", "extra.vdf"), `"Game" { "developer" "Valve" }`);
+    expect(await parseVDFFile(join(folder, "game.vdf"))).toEqual({
+      Game: { name: "hl2", icon: "hl2.ico", developer: "Valve" },
+    });
+  });
+
+  it("stops at include cycles", async () => {
+    writeFileSync(join(folder, "a.vdf"), `#include "cfg/b.vdf"\n"A" { "x" "1" }`);
+    writeFileSync(join(folder, "cfg", "b.vdf"), `#include "../a.vdf"\n"B" { "y" "2" }`);
+    expect(await parseVDFFile(join(folder, "a.vdf"))).toEqual({ A: { x: "1" }, B: { y: "2" } });
+  });
+});
+
+describe("VDF documents", () => {
+  it("changes only the edited value", () => {
+    const doc = parseVDFDocument(CONFIG);
+    setVDFDocumentValue(doc, ["UserLocalConfigStore", "apps", "220", "LaunchOptions"], "-dx11");
+    expect(stringifyVDFDocument(doc)).toBe(CONFIG.replace('"-novid"', '"-dx11"'));
+  });
+});
+
+describe("writeVDFFile", () => {
+  let folder: string;
+  let path: string;
+
+  beforeEach(() => {
+    folder = mkdtempSync(join(tmpdir(), "steam-utilities-vdf-"));
+    path = join(folder, "localconfig.vdf");
+    writeFileSync(path, CONFIG);
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(folder, { recursive: true, force: true });
+  });
+
+  it("keeps only the newest backups", async () => {
+    writeFileSync(join(folder, "localconfig.vdf.mine.bak"), "not ours");
+    for (let n = 1; n <= 5; n++) {
+      vi.setSystemTime(new Date(Date.UTC(2026, 0, 1, 12, 0, n)));
+      await writeVDFFile(path, CONFIG.replace("-novid", `-run${n}`));
+    }
+
+    expect(readdirSync(folder).sort()).toEqual([
+      "localconfig.vdf",
+      "localconfig.vdf.2026-01-01T12-00-03-000Z.bak",
+      "localconfig.vdf.2026-01-01T12-00-04-000Z.bak",
+      "localconfig.vdf.2026-01-01T12-00-05-000Z.bak",
+      "localconfig.vdf.mine.bak",
+    ]);
+    expect(readFileSync(join(folder, "localconfig.vdf.2026-01-01T12-00-05-000Z.bak"), "utf8")).toContain("-run4");
+    expect(readFileSync(path, "utf8")).toContain("-run5");
+  });
+
+  it("honours a custom backup count", async () => {
+    for (let n = 1; n <= 3; n++) {
+      vi.setSystemTime(new Date(Date.UTC(2026, 0, 1, 12, 0, n)));
+      await writeVDFFile(path, CONFIG, { keepBackups: 1 });
+    }
+    expect(readdirSync(folder).filter((f) => f.endsWith(".bak"))).toEqual([
+      "localconfig.vdf.2026-01-01T12-00-03-000Z.bak",
+    ]);
+  });
+});
@@ -0,0 +1,31 @@
+import { LocalStorage } from "@raycast/api";
+
+// appid -> extra names the game can be found by, e.g. "gta" or "bg3"
+export type GameAliases = Record<string, string[]>;
+
+const STORAGE_KEY = "steam-game-aliases";
+
+export async function loadAliases(): Promise<GameAliases> {
+  try {
+    const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as GameAliases) : {};
+  } catch {
+    return {}; // ignore corrupt storage
+  }
+}
+
+/**
+ * Replace a game's aliases; an empty list removes the entry
+ */
+export async function setAliases(appid: string, aliases: string[]): Promise<GameAliases> {
+  const store = await loadAliases();
+  const cleaned = [...new Set(aliases.map((a) => a.trim()).filter(Boolean))];
+  if (cleaned.length === 0) delete store[appid];
+  else store[appid] = cleaned;
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  return store;
+}
+
+export function parseAliases(input: string): string[] {
+  return input.split(",").map((a) => a.trim());
+}
@@ -0,0 +1,214 @@
+import { readFile } from "fs/promises";
+import { BinaryVDFObject, BinaryVDFValue, readBinaryVDF } from "./binaryvdf";
+
+/**
+ * Reader for Steam's local app metadata cache (<SteamPath>/appcache/appinfo.vdf)
+ * - v27: per-app header followed by binary KeyValues
+ * - v28: adds a SHA-1 of the binary KeyValues to each header
+ * - v29: keys are indexes into a string table stored at the end of the file
+ */
+export const APPINFO_MAGIC_V27 = 0x07564427;
+export const APPINFO_MAGIC_V28 = 0x07564428;
+export const APPINFO_MAGIC_V29 = 0x07564429;
+
+export interface AppInfoEntry {
+  appid: string;
+  infoState: number;
+  lastUpdated: Date;
+  changeNumber: number;
+  data: BinaryVDFObject; // root "appinfo" object
+}
+
+export interface AppCommonInfo {
+  name?: string;
+  type?: string; // Game, Application, Tool, Demo, DLC, ...
+  developer?: string;
+  publisher?: string;
+  genres: string[];
+  storeTags: string[];
+  releaseDate?: Date;
+}
+
+// Steam genre IDs as used in common/genres
+const GENRE_NAMES: Record<string, string> = {
+  "1": "Action",
+  "2": "Strategy",
+  "3": "RPG",
+  "4": "Casual",
+  "9": "Racing",
+  "18": "Sports",
+  "23": "Indie",
+  "25": "Adventure",
+  "28": "Simulation",
+  "29": "Massively Multiplayer",
+  "37": "Free to Play",
+  "51": "Animation & Modeling",
+  "52": "Audio Production",
+  "53": "Design & Illustration",
+  "54": "Education",
+  "55": "Photo Editing",
+  "56": "Software Training",
+  "57": "Utilities",
+  "58": "Video Production",
+  "59": "Web Publishing",
+  "60": "Game Development",
+  "70": "Early Access",
+  "71": "Sexual Content",
+  "72": "Nudity",
+  "73": "Violent",
+  "74": "Gore",
+  "81": "Documentary",
+  "84": "Tutorial",
+};
+
+// Common store tag IDs as used in common/store_tags; unknown IDs are returned as-is
+const STORE_TAG_NAMES: Record<string, string> = {
+  "9": "Strategy",
+  "19": "Action",
+  "21": "Adventure",
+  "113": "Free to Play",
+  "122": "RPG",
+  "128": "Massively Multiplayer",
+  "492": "Indie",
+  "493": "Early Access",
+  "597": "Casual",
+  "599": "Simulation",
+  "699": "Racing",
+  "701": "Sports",
+  "1625": "Platformer",
+  "1662": "Survival",
+  "1663": "FPS",
+  "1664": "Puzzle",
+  "1667": "Horror",
+  "1684": "Fantasy",
+  "1685": "Co-op",
+  "1695": "Open World",
+  "1742": "Story Rich",
+  "1774": "Shooter",
+  "3859": "Multiplayer",
+  "3942": "Sci-fi",
+  "4182": "Singleplayer",
+};
+
+function readStringTable(buf: Buffer, offset: number): string[] {
+  if (offset < 0 || offset + 4 > buf.length) throw new Error(`Invalid string table offset ${offset}`);
+  const count = buf.readUInt32LE(offset);
+  const table: string[] = [];
+  let i = offset + 4;
+  for (let n = 0; n < count; n++) {
+    const nul = buf.indexOf(0, i);
+    if (nul === -1) throw new Error(`Unterminated string table entry at position ${i}`);
+    table.push(buf.toString("utf8", i, nul));
+    i = nul + 1;
+  }
+  return table;
+}
+
+/**
+ * Parse appinfo.vdf. Pass `appids` to only decode those apps; others are skipped by size,
+ * which keeps parsing fast on large caches.
+ */
+export function parseAppInfo(buf: Buffer, options?: { appids?: Set<string> }): Map<string, AppInfoEntry> {
+  if (buf.length < 8) throw new Error("appinfo.vdf is too short");
+  const magic = buf.readUInt32LE(0);
+  if (magic !== APPINFO_MAGIC_V27 && magic !== APPINFO_MAGIC_V28 && magic !== APPINFO_MAGIC_V29) {
+    throw new Error(`Unsupported appinfo.vdf version 0x${magic.toString(16)}`);
+  }
+
+  let offset = 8; // magic + universe
+  let stringTable: string[] | undefined;
+  if (magic === APPINFO_MAGIC_V29) {
+    stringTable = readStringTable(buf, Number(buf.readBigInt64LE(offset)));
+    offset += 8;
+  }
+  const headerSize = magic === APPINFO_MAGIC_V27 ? 40 : 60; // fields after appid + size
+
+  const entries = new Map<string, AppInfoEntry>();
+  while (offset + 4 <= buf.length) {
+    const appid = buf.readUInt32LE(offset);
+    if (appid === 0) break; // end of app sections
+    const size = buf.readUInt32LE(offset + 4);
+    const start = offset + 8;
+    const end = start + size;
+    if (end > buf.length) throw new Error(`Truncated entry for app ${appid} at position ${offset}`);
+
+    const id = String(appid);
+    if (!options?.appids || options.appids.has(id)) {
+      const infoState = buf.readUInt32LE(start);
+      const lastUpdated = buf.readUInt32LE(start + 4);
+      // picsToken (8 bytes) and text SHA-1 (20 bytes) are not needed
+      const changeNumber = buf.readUInt32LE(start + 36);
+      const { value } = readBinaryVDF(buf, start + headerSize, { stringTable });
+      entries.set(id, {
+        appid: id,
+        infoState,
+        lastUpdated: new Date(lastUpdated * 1000),
+        changeNumber,
+        data: (value["appinfo"] as BinaryVDFObject) ?? value,
+      });
+    }
+    offset = end;
+  }
+  return entries;
+}
+
+export async function parseAppInfoFile(path: string, options?: { appids?: Set<string> }) {
+  const buf = await readFile(path);
+  return parseAppInfo(buf, options);
+}
+
+function asObject(v: BinaryVDFValue | undefined): BinaryVDFObject | undefined {
+  return v && typeof v === "object" ? (v as BinaryVDFObject) : undefined;
+}
+
+function asString(v: BinaryVDFValue | undefined): string | undefined {
+  if (v === undefined || typeof v === "object") return undefined;
+  const s = String(v).trim();
+  return s || undefined;
+}
+
+// Names from common/associations of the given type ("developer" or "publisher")
+function associationNames(common: BinaryVDFObject, kind: string): string[] {
+  const assoc = asObject(common["associations"]);
+  if (!assoc) return [];
+  const names: string[] = [];
+  for (const key of Object.keys(assoc)) {
+    const entry = asObject(assoc[key]);
+    if (entry && asString(entry["type"]) === kind) {
+      const name = asString(entry["name"]);
+      if (name) names.push(name);
+    }
+  }
+  return names;
+}
+
+function idList(v: BinaryVDFValue | undefined, names: Record<string, string>): string[] {
+  const obj = asObject(v);
+  if (!obj) return [];
+  return Object.values(obj)
+    .map((id) => asString(id))
+    .filter((id): id is string => !!id)
+    .map((id) => names[id] ?? id);
+}
+
+/**
+ * Extract the `common` metadata used by the UI from a parsed appinfo entry
+ */
+export function getAppCommonInfo(entry: AppInfoEntry): AppCommonInfo {
+  const common = asObject(entry.data["common"]) ?? {};
+  const extended = asObject(entry.data["extended"]) ?? {};
+
+  const developers = associationNames(common, "developer");
+  const publishers = associationNames(common, "publisher");
+  const releaseSecs = Number(asString(common["steam_release_date"]) ?? asString(common["original_release_date"]) ?? 0);
+
+  return {
+    name: asString(common["name"]),
+    type: asString(common["type"]),
+    developer: developers.length > 0 ? developers.join(", ") : asString(extended["developer"]),
+    publisher: publishers.length > 0 ? publishers.join(", ") : asString(extended["publisher"]),
+    genres: idList(common["genres"], GENRE_NAMES),
+    storeTags: idList(common["store_tags"], STORE_TAG_NAMES),
+    releaseDate: releaseSecs > 0 ? new Date(releaseSecs * 1000) : undefined,
+  };
+}
@@ -0,0 +1,136 @@
+import { readFile } from "fs/promises";
+
+/**
+ * Reader for Valve's binary KeyValues format (appinfo.vdf, shortcuts.vdf)
+ * - Each entry is a type byte, a key and a typed value
+ * - Keys are null-terminated UTF-8, or uint32 indexes into a string table (appinfo.vdf v29+)
+ * - Nested objects end with a 0x08 byte
+ */
+export type BinaryVDFValue = string | number | bigint | BinaryVDFObject;
+export type BinaryVDFObject = { [key: string]: BinaryVDFValue };
+
+export const BinaryVDFType = {
+  Map: 0x00,
+  String: 0x01,
+  Int32: 0x02,
+  Float32: 0x03,
+  Pointer: 0x04,
+  WideString: 0x05,
+  Color: 0x06,
+  UInt64: 0x07,
+  End: 0x08,
+  Int64: 0x0a,
+  EndAlt: 0x0b,
+} as const;
+
+export interface BinaryVDFOptions {
+  // When set, keys are read as uint32 indexes into this table instead of inline strings
+  stringTable?: string[];
+}
+
+function readCString(buf: Buffer, offset: number): { value: string; end: number } {
+  const nul = buf.indexOf(0, offset);
+  if (nul === -1) throw new Error(`Unterminated string at position ${offset}`);
+  return { value: buf.toString("utf8", offset, nul), end: nul + 1 };
+}
+
+function readWideString(buf: Buffer, offset: number): { value: string; end: number } {
+  let end = offset;
+  while (end + 1 < buf.length && (buf[end] !== 0 || buf[end + 1] !== 0)) end += 2;
+  if (end + 1 >= buf.length) throw new Error(`Unterminated wide string at position ${offset}`);
+  return { value: buf.toString("utf16le", offset, end), end: end + 2 };
+}
+
+function ensureAvailable(buf: Buffer, offset: number, bytes: number) {
+  if (offset + bytes > buf.length) throw new Error(`Unexpected end of input at position ${offset}`);
+}
+
+/**
+ * Read a binary KeyValues object starting at `offset` up to and including its end marker.
+ * Returns the decoded object and the position just after it.
+ */
+export function readBinaryVDF(
+  buf: Buffer,
+  offset = 0,
+  options?: BinaryVDFOptions,
+): { value: BinaryVDFObject; end: number } {
+  const stringTable = options?.stringTable;
+  const obj: BinaryVDFObject = {};
+  let i = offset;
+
+  function readKey(): string {
+    if (stringTable) {
+      ensureAvailable(buf, i, 4);
+      const index = buf.readUInt32LE(i);
+      if (index >= stringTable.length) throw new Error(`String table index ${index} out of range at position ${i}`);
+      i += 4;
+      return stringTable[index];
+    }
+    const key = readCString(buf, i);
+    i = key.end;
+    return key.value;
+  }
+
+  while (i < buf.length) {
+    const type = buf[i++];
+    if (type === BinaryVDFType.End || type === BinaryVDFType.EndAlt) {
+      return { value: obj, end: i };
+    }
+    const key = readKey();
+    switch (type) {
+      case BinaryVDFType.Map: {
+        const child = readBinaryVDF(buf, i, options);
+        obj[key] = child.value;
+        i = child.end;
+        break;
+      }
+      case BinaryVDFType.String: {
+        const str = readCString(buf, i);
+        obj[key] = str.value;
+        i = str.end;
+        break;
+      }
+      case BinaryVDFType.WideString: {
+        const str = readWideString(buf, i);
+        obj[key] = str.value;
+        i = str.end;
+        break;
+      }
+      case BinaryVDFType.Int32:
+      case BinaryVDFType.Pointer:
+      case BinaryVDFType.Color:
+        ensureAvailable(buf, i, 4);
+        obj[key] = buf.readInt32LE(i);
+        i += 4;
+        break;
+      case BinaryVDFType.Float32:
+        ensureAvailable(buf, i, 4);
+        obj[key] = buf.readFloatLE(i);
+        i += 4;
+        break;
+      case BinaryVDFType.UInt64:
+        ensureAvailable(buf, i, 8);
+        obj[key] = buf.readBigUInt64LE(i);
+        i += 8;
+        break;
+      case BinaryVDFType.Int64:
+        ensureAvailable(buf, i, 8);
+        obj[key] = buf.readBigInt64LE(i);
+        i += 8;
+        break;
+      default:
+        throw new Error(`Unknown binary VDF type 0x${type.toString(16)} at position ${i - 1}`);
+    }
+  }
+  // Some writers omit the final end marker at the root
+  return { value: obj, end: i };
+}
+
+export function parseBinaryVDF(buf: Buffer, options?: BinaryVDFOptions): BinaryVDFObject {
+  return readBinaryVDF(buf, 0, options).value;
+}
+
+export async function parseBinaryVDFFile(path: string, options?: BinaryVDFOptions): Promise<BinaryVDFObject> {
+  const buf = await readFile(path);
+  return parseBinaryVDF(buf, options);
+}
@@ -0,0 +1,17 @@
+import { LocalStorage } from "@raycast/api";
+
+// Favorite appids, stored as a JSON array
+const STORAGE_KEY = "steam-favorites";
+
+export async function loadFavorites(): Promise<Set<string>> {
+  try {
+    const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+    return new Set(raw ? (JSON.parse(raw) as string[]) : []);
+  } catch {
+    return new Set(); // ignore corrupt storage
+  }
+}
+
+export async function saveFavorites(favorites: Set<string>): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify([...favorites]));
+}
@@ -0,0 +1,164 @@
+// Roman numerals as they appear in game titles ("Final Fantasy VII"), up to 39
+const ROMAN_NUMERAL = /^(x{0,3})(ix|iv|v?i{0,3})$/;
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10 };
+
+function romanToArabic(token: string): string {
+  if (!token || !ROMAN_NUMERAL.test(token)) return token;
+  let total = 0;
+  for (let i = 0; i < token.length; i++) {
+    const value = ROMAN_VALUES[token[i]];
+    const next = ROMAN_VALUES[token[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return String(total);
+}
+
+/**
+ * Lower-case words with accents and punctuation removed. Digits glued to letters are split off ("cs2").
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/([a-z])(\d)/g, "$1 $2")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// A title's Roman numerals as digits, so "Half-Life II" and "half life 2" compare equal. The first
+// word is left alone: a title doesn't open with its sequel number, and "X-Men" or "I Am Bread" are words
+function titleTokens(text: string): string[] {
+  return tokenize(text).map((t, i) => (i === 0 ? t : romanToArabic(t)));
+}
+
+// Word initials, with numbers kept whole: "Red Dead Redemption 2" -> "rdr2"
+function acronym(tokens: string[]): string {
+  return tokens.map((t) => (/^\d+$/.test(t) ? t : t[0])).join("");
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], prev2[j - 2] + 1);
+      }
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev2 = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Typos allowed for a word of this length: none for short words, where a typo is another word
+function typoBudget(length: number): number {
+  return length < 4 ? 0 : length < 8 ? 1 : 2;
+}
+
+// How well one query word matches one text word, 0..1
+function wordScore(q: string, word: string): number {
+  if (word === q) return 1;
+  if (word.startsWith(q)) return 0.8;
+  const budget = typoBudget(q.length);
+  if (budget === 0) return 0;
+  // Compare against the word and against its prefix of the query's length, for typos in partial words
+  const distance = Math.min(
+    editDistance(q, word, budget),
+    word.length > q.length ? editDistance(q, word.slice(0, q.length), budget) : budget + 1,
+  );
+  return distance <= budget ? 0.5 - 0.1 * distance : 0;
+}
+
+// Score of already tokenized words, see fuzzyScore
+function tokensScore(qTokens: string[], tTokens: string[]): number {
+  const q = qTokens.join(" ");
+  const t = tTokens.join(" ");
+  if (t === q) return 1000;
+  if (t.startsWith(q)) return 900;
+
+  const compactQuery = qTokens.join("");
+  const initials = acronym(tTokens);
+  if (compactQuery.length >= 2) {
+    if (initials === compactQuery) return 850;
+    if (initials.startsWith(compactQuery)) return 750;
+  }
+
+  // Every query word has to find a word in the text, in any order
+  let total = 0;
+  for (const qt of qTokens) {
+    const best = Math.max(...tTokens.map((tt) => wordScore(qt, tt)));
+    if (best === 0) {
+      total = 0;
+      break;
+    }
+    total += best;
+  }
+  if (total > 0) return Math.round(500 + (total / qTokens.length) * 200);
+
+  if (t.includes(q)) return 400;
+  if (compactQuery.length >= 3 && initials.includes(compactQuery)) return 350;
+
+  // Letters in order, penalised by the gaps between them; widely scattered letters are noise
+  const compactText = tTokens.join("");
+  let gaps = 0;
+  let last = -1;
+  for (const ch of compactQuery) {
+    const i = compactText.indexOf(ch, last + 1);
+    if (i === -1) return 0;
+    if (last !== -1) gaps += i - last - 1;
+    last = i;
+  }
+  return gaps <= compactQuery.length * 2 ? Math.max(1, 200 - gaps * 10) : 0;
+}
+
+/**
+ * Score how well `query` matches `text`; 0 means no match. From best to worst: exact, prefix,
+ * acronym ("rdr2", "botw"), every query word matching a word (prefix or small typo allowed),
+ * substring, then the query's letters scattered in order. The query is tried as typed and with
+ * its Roman numerals as digits, so "v" still finds "Valheim" and "ff vii" finds "Final Fantasy VII".
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const qTokens = tokenize(query);
+  const tTokens = titleTokens(text);
+  if (qTokens.length === 0 || tTokens.length === 0) return 0;
+  const numerals = qTokens.map(romanToArabic);
+  const score = tokensScore(qTokens, tTokens);
+  return numerals.some((t, i) => t !== qTokens[i]) ? Math.max(score, tokensScore(numerals, tTokens)) : score;
+}
+
+export interface SearchField {
+  text: string;
+  weight: number; // 1 for names and aliases, less for secondary fields such as tags
+  exact?: boolean; // only exact or prefix matches count, e.g. App IDs
+}
+
+/**
+ * Best weighted score of `query` over several fields of one item; 0 means no match.
+ */
+export function scoreFields(query: string, fields: SearchField[]): number {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  let best = 0;
+  for (const field of fields) {
+    if (!field.text) continue;
+    const score = field.exact
+      ? field.text.toLowerCase() === q
+        ? 1000
+        : field.text.toLowerCase().startsWith(q)
+          ? 700
+          : 0
+      : fuzzyScore(q, field.text);
+    best = Math.max(best, score * field.weight);
+  }
+  return best;
+}
@@ -0,0 +1,92 @@
+import { LocalStorage } from "@raycast/api";
+
+export const BACKLOG_STATUSES = ["playing", "backlog", "wishlist-replay", "completed", "dropped"] as const;
+export type BacklogStatus = (typeof BACKLOG_STATUSES)[number];
+
+export const BACKLOG_STATUS_TITLES: Record<BacklogStatus, string> = {
+  playing: "Playing",
+  backlog: "Backlog",
+  "wishlist-replay": "Wishlist / Replay",
+  completed: "Completed",
+  dropped: "Dropped",
+};
+
+export function isBacklogStatus(v: string | undefined): v is BacklogStatus {
+  return !!v && (BACKLOG_STATUSES as readonly string[]).includes(v);
+}
+
+// The user's own data about a game, next to what Steam knows
+export interface GameNote {
+  tags: string[];
+  note?: string; // Markdown
+  status?: BacklogStatus;
+  completedAt?: string; // ISO date, only kept with the "completed" status
+}
+
+// appid -> note, stored as JSON next to "steam-favorites"
+export type GameNotes = Record<string, GameNote>;
+
+const STORAGE_KEY = "steam-game-notes";
+
+export async function loadGameNotes(): Promise<GameNotes> {
+  try {
+    const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as GameNotes) : {};
+  } catch {
+    return {}; // ignore corrupt storage
+  }
+}
+
+/**
+ * Replace a game's note; one with no tags, text or status removes the entry
+ */
+export async function saveGameNote(appid: string, note: GameNote): Promise<GameNotes> {
+  const store = await loadGameNotes();
+  const cleaned: GameNote = {
+    tags: [...new Set(note.tags.map((t) => t.trim()).filter(Boolean))],
+    note: note.note?.trim() || undefined,
+    status: note.status,
+    completedAt: note.status === "completed" ? note.completedAt : undefined,
+  };
+  if (cleaned.tags.length === 0 && !cleaned.note && !cleaned.status) delete store[appid];
+  else store[appid] = cleaned;
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  return store;
+}
+
+// Every tag in use, for suggestions and the "By Tag" grouping
+export function allTags(store: GameNotes): string[] {
+  return [...new Set(Object.values(store).flatMap((n) => n.tags))].sort((a, b) => a.localeCompare(b));
+}
+
+// Catch-all sections of the "By Tag" and "By Status" groupings, listed last
+export const UNTAGGED_SECTION = "Untagged";
+export const NO_STATUS_SECTION = "No Status";
+
+// "By Tag": a game shows up under each of its tags
+export function groupByTag<T extends { appid: string }>(games: T[], store: GameNotes): Record<string, T[]> {
+  const grouped: Record<string, T[]> = {};
+  for (const game of games) {
+    const tags = store[game.appid]?.tags ?? [];
+    for (const tag of tags.length ? tags : [UNTAGGED_SECTION]) {
+      (grouped[tag] ??= []).push(game);
+    }
+  }
+  return grouped;
+}
+
+// "By Status": sections titled like BACKLOG_STATUS_TITLES
+export function groupByStatus<T extends { appid: string }>(games: T[], store: GameNotes): Record<string, T[]> {
+  const grouped: Record<string, T[]> = {};
+  for (const game of games) {
+    const status = store[game.appid]?.status;
+    (grouped[status ? BACKLOG_STATUS_TITLES[status] : NO_STATUS_SECTION] ??= []).push(game);
+  }
+  return grouped;
+}
+
+// Position of a "By Status" section: statuses in workflow order, games without one last
+export function statusSectionRank(section: string): number {
+  const i = BACKLOG_STATUSES.findIndex((s) => BACKLOG_STATUS_TITLES[s] === section);
+  return i === -1 ? BACKLOG_STATUSES.length : i;
+}
@@ -0,0 +1,351 @@
+import { existsSync, readdirSync, readFileSync, readlinkSync, realpathSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { ProcessInfo } from "../types";
+import { executeCommand, executeCommandOrThrow, isLinux, spawnDetached } from "./index";
+import { SteamPaths } from "./steam";
+import { getVDFChild, parseVDF, readVDFDocument, setVDFDocumentValue, writeVDFFile } from "./vdf";
+
+/**
+ * Everything steam.ts needs from the operating system besides reading files.
+ * Implementations exist for Windows, Linux and an in-memory fake for tests.
+ */
+export interface SteamHost {
+  readonly platform: "win32" | "linux" | "fake";
+  readonly steamProcessName: string; // image name of the Steam client process
+  // Read a registry value (Windows) or its mirror in registry.vdf (Linux)
+  readRegistryString(key: string, value: string): Promise<string | undefined>;
+  // Write a string registry value (Windows) or its mirror in registry.vdf (Linux)
+  writeRegistryString(key: string, value: string, data: string): Promise<void>;
+  // Locate the Steam installation root
+  findSteam(): Promise<SteamPaths | undefined>;
+  openPath(path: string): Promise<void>;
+  openUrl(url: string): Promise<void>;
+  // With `details`, also fill in executable path, command line and start time where the OS allows
+  listProcesses(options?: { details?: boolean }): Promise<ProcessInfo[]>;
+  // Kill by image name or PID
+  killProcess(target: string | number, options?: { force?: boolean }): Promise<void>;
+  // Start a process without waiting for it to exit
+  spawn(command: string, args?: string[]): Promise<void>;
+  // Start the Steam client, forwarding extra arguments such as -applaunch
+  startSteam(paths: SteamPaths, args?: string[]): Promise<void>;
+}
+
+const FLATPAK_APP_ID = "com.valvesoftware.Steam";
+
+// One row of Win32_Process as selected by the Windows host
+interface WmiProcess {
+  ProcessId: number;
+  Name: string;
+  ExecutablePath: string | null;
+  CommandLine: string | null;
+  WorkingSetSize: number | null;
+  StartTime: string | null;
+}
+
+export function createWindowsHost(): SteamHost {
+  async function readRegistryString(key: string, value: string): Promise<string | undefined> {
+    // Example: reg query "HKCU\Software\Valve\Steam" /v SteamPath
+    const result = await executeCommand("reg", ["query", key, "/v", value]);
+    if (!result.success || !result.output) return undefined;
+    // Example line: "    SteamPath    REG_SZ    C:\Program Files (x86)\Steam"
+    const rx = new RegExp(`^\\s*${value}\\s+REG_\\w+\\s+(.+)$`, "i");
+    for (const line of result.output.split(/\r?\n/)) {
+      const m = line.match(rx);
+      if (m && m[1]) return m[1].trim();
+    }
+    return undefined;
+  }
+
+  // tasklist cannot show paths or start times, so detailed listings go through WMI
+  async function listProcessesWithDetails(): Promise<ProcessInfo[]> {
+    const script =
+      "Get-CimInstance Win32_Process | Select-Object ProcessId,Name,ExecutablePath,CommandLine,WorkingSetSize," +
+      "@{n='StartTime';e={if ($_.CreationDate) { $_.CreationDate.ToUniversalTime().ToString('o') }}} | ConvertTo-Json -Compress";
+    const out = await executeCommandOrThrow("powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", script], {
+      timeout: 15000,
+    });
+    if (!out.trim()) return [];
+    const parsed = JSON.parse(out) as WmiProcess | WmiProcess[];
+    return (Array.isArray(parsed) ? parsed : [parsed]).map((p) => ({
+      pid: p.ProcessId,
+      name: p.Name,
+      path: p.ExecutablePath ?? undefined,
+      commandLine: p.CommandLine ?? undefined,
+      memoryUsage: p.WorkingSetSize ?? undefined,
+      startTime: p.StartTime ? new Date(p.StartTime) : undefined,
+    }));
+  }
+
+  return {
+    platform: "win32",
+    steamProcessName: "steam.exe",
+    readRegistryString,
+    async writeRegistryString(key, value, data) {
+      await executeCommandOrThrow("reg", ["add", key, "/v", value, "/t", "REG_SZ", "/d", data, "/f"]);
+    },
+    async findSteam() {
+      let root = await readRegistryString("HKCU\\Software\\Valve\\Steam", "SteamPath");
+      if (!root) {
+        const hklmWow = await readRegistryString("HKLM\\SOFTWARE\\WOW6432Node\\Valve\\Steam", "InstallPath");
+        const hklm = await readRegistryString("HKLM\\SOFTWARE\\Valve\\Steam", "InstallPath");
+        root = hklmWow || hklm || undefined;
+      }
+      if (!root) return undefined;
+      return { steamPath: root, steamExe: join(root, "steam.exe"), configPath: join(root, "config") };
+    },
+    openPath(path) {
+      // Explorer exits non-zero even on success, so don't wait for its exit code
+      return spawnDetached("explorer.exe", [path]);
+    },
+    openUrl(url) {
+      // Hands the URL to its registered protocol handler (browser, steam://) without a shell
+      return spawnDetached("rundll32.exe", ["url.dll,FileProtocolHandler", url]);
+    },
+    async listProcesses(options) {
+      if (options?.details) return listProcessesWithDetails();
+      // CSV without header: "Image Name","PID","Session Name","Session#","Mem Usage"
+      const out = await executeCommandOrThrow("tasklist", ["/FO", "CSV", "/NH"]);
+      const processes: ProcessInfo[] = [];
+      for (const line of out.split(/\r?\n/)) {
+        const cols = line.match(/"([^"]*)"/g)?.map((c) => c.slice(1, -1));
+        if (!cols || cols.length < 2) continue;
+        const pid = parseInt(cols[1], 10);
+        if (!Number.isFinite(pid)) continue;
+        const memKb = parseInt((cols[4] ?? "").replace(/[^\d]/g, ""), 10);
+        processes.push({ pid, name: cols[0], memoryUsage: Number.isFinite(memKb) ? memKb * 1024 : undefined });
+      }
+      return processes;
+    },
+    async killProcess(target, options) {
+      const selector = typeof target === "number" ? ["/PID", String(target)] : ["/IM", target];
+      await executeCommandOrThrow("taskkill", [...selector, ...(options?.force ? ["/F"] : [])]);
+    },
+    spawn(command, args = []) {
+      return spawnDetached(command, args);
+    },
+    async startSteam(paths, args = []) {
+      if (args.length > 0) {
+        await spawnDetached(paths.steamExe, args);
+        return;
+      }
+      // Launch Steam with proper context using explorer.exe to preserve user permissions
+      // This ensures NVIDIA driver access is maintained
+      await spawnDetached("explorer.exe", [paths.steamExe]);
+    },
+  };
+}
+
+// USER_HZ and page size are fixed at 100 and 4 KiB on the architectures Steam supports
+const CLOCK_TICKS_PER_SECOND = 100;
+const PAGE_SIZE = 4096;
+
+function getBootTimeMs(): number | undefined {
+  try {
+    const btime = /^btime\s+(\d+)$/m.exec(readFileSync("/proc/stat", "utf8"))?.[1];
+    return btime ? parseInt(btime, 10) * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function createLinuxHost(): SteamHost {
+  const home = homedir();
+  // Steam on Linux mirrors its registry keys into ~/.steam/registry.vdf
+  const registryFiles = () =>
+    [join(home, ".steam", "registry.vdf"), join(home, ".var", "app", FLATPAK_APP_ID, ".steam", "registry.vdf")].filter(
+      (file) => existsSync(file),
+    );
+
+  return {
+    platform: "linux",
+    steamProcessName: "steam",
+    async readRegistryString(key, value) {
+      for (const file of registryFiles()) {
+        try {
+          let node = getVDFChild(parseVDF(readFileSync(file, "utf8")), "Registry");
+          for (const part of key.split("\\")) node = getVDFChild(node, part);
+          const lower = value.toLowerCase();
+          const found = Object.entries(node ?? {}).find(([k]) => k.toLowerCase() === lower)?.[1];
+          if (typeof found === "string" && found) return found;
+        } catch {
+          // ignore unreadable registry.vdf and try the next candidate
+        }
+      }
+      return undefined;
+    },
+    async writeRegistryString(key, value, data) {
+      const file = registryFiles()[0];
+      if (!file) throw new Error("registry.vdf not found; start Steam once to create it");
+      const doc = await readVDFDocument(file);
+      setVDFDocumentValue(doc, ["Registry", ...key.split("\\"), value], data);
+      await writeVDFFile(file, doc);
+    },
+    async findSteam() {
+      // Native installs (~/.steam/steam is usually a symlink) first, then Flatpak
+      const candidates: Array<{ root: string; flatpak: boolean }> = [
+        { root: join(home, ".steam", "steam"), flatpak: false },
+        { root: join(home, ".local", "share", "Steam"), flatpak: false },
+        { root: join(home, ".steam", "root"), flatpak: false },
+        { root: join(home, ".var", "app", FLATPAK_APP_ID, ".local", "share", "Steam"), flatpak: true },
+        { root: join(home, ".var", "app", FLATPAK_APP_ID, "data", "Steam"), flatpak: true },
+      ];
+      for (const c of candidates) {
+        if (!existsSync(join(c.root, "steamapps"))) continue;
+        let root = c.root;
+        try {
+          root = realpathSync(c.root);
+        } catch {
+          // keep the unresolved path
+        }
+        return { steamPath: root, steamExe: "steam", configPath: join(root, "config"), flatpak: c.flatpak };
+      }
+      return undefined;
+    },
+    openPath(path) {
+      return spawnDetached("xdg-open", [path]);
+    },
+    openUrl(url) {
+      return spawnDetached("xdg-open", [url]);
+    },
+    async listProcesses(options) {
+      const bootTimeMs = options?.details ? getBootTimeMs() : undefined;
+      const processes: ProcessInfo[] = [];
+      for (const entry of readdirSync("/proc")) {
+        if (!/^\d+$/.test(entry)) continue;
+        try {
+          const name = readFileSync(join("/proc", entry, "comm"), "utf8").trim();
+          let path: string | undefined;
+          try {
+            path = readlinkSync(join("/proc", entry, "exe"));
+          } catch {
+            // processes owned by other users hide their executable
+          }
+          const info: ProcessInfo = { pid: parseInt(entry, 10), name, path };
+          if (options?.details) {
+            // Arguments are NUL-separated; Proton games show their Windows path here
+            info.commandLine = readFileSync(join("/proc", entry, "cmdline"), "utf8")
+              .split("\0")
+              .join(" ")
+              .trim();
+            const stat = readFileSync(join("/proc", entry, "stat"), "utf8");
+            // Fields after the parenthesised name; starttime is field 22 overall, in clock ticks since boot
+            const startTicks = parseInt(stat.slice(stat.lastIndexOf(")") + 2).split(" ")[19], 10);
+            if (bootTimeMs !== undefined && Number.isFinite(startTicks)) {
+              info.startTime = new Date(bootTimeMs + (startTicks * 1000) / CLOCK_TICKS_PER_SECOND);
+            }
+            const rssPages = parseInt(readFileSync(join("/proc", entry, "statm"), "utf8").split(" ")[1], 10);
+            if (Number.isFinite(rssPages)) info.memoryUsage = rssPages * PAGE_SIZE;
+          }
+          processes.push(info);
+        } catch {
+          // process exited while listing
+        }
+      }
+      return processes;
+    },
+    async killProcess(target, options) {
+      const signal = options?.force ? "KILL" : "TERM";
+      if (typeof target === "number") {
+        await executeCommandOrThrow("kill", [`-${signal}`, String(target)]);
+      } else {
+        await executeCommandOrThrow("pkill", [`-${signal}`, "-x", target]);
+      }
+    },
+    spawn(command, args = []) {
+      return spawnDetached(command, args);
+    },
+    startSteam(paths, args = []) {
+      if (paths.flatpak) return spawnDetached("flatpak", ["run", FLATPAK_APP_ID, ...args]);
+      return spawnDetached(paths.steamExe, args);
+    },
+  };
+}
+
+export type FakeHostCall =
+  | { type: "openPath"; path: string }
+  | { type: "openUrl"; url: string }
+  | { type: "writeRegistry"; key: string; value: string; data: string }
+  | { type: "kill"; target: string | number; force: boolean }
+  | { type: "spawn"; command: string; args: string[] }
+  | { type: "startSteam"; args: string[] };
+
+export interface FakeSteamHost extends SteamHost {
+  calls: FakeHostCall[]; // every side effect, in order
+  processes: ProcessInfo[]; // mutable process table
+  registry: Record<string, string>; // "<key>\<value>" -> data
+}
+
+/**
+ * In-memory host for tests. Point `steamPath` at a fixture Steam directory; side effects are
+ * recorded in `calls`, and starting/killing Steam updates the fake process table.
+ */
+export function createFakeHost(options: {
+  steamPath?: string;
+  registry?: Record<string, string>;
+  processes?: ProcessInfo[];
+}): FakeSteamHost {
+  const calls: FakeHostCall[] = [];
+  const processes = [...(options.processes ?? [])];
+  const registry = { ...(options.registry ?? {}) };
+  let nextPid = 1000;
+
+  const host: FakeSteamHost = {
+    platform: "fake",
+    steamProcessName: "steam",
+    calls,
+    processes,
+    registry,
+    async readRegistryString(key, value) {
+      return registry[`${key}\\${value}`];
+    },
+    async writeRegistryString(key, value, data) {
+      calls.push({ type: "writeRegistry", key, value, data });
+      registry[`${key}\\${value}`] = data;
+    },
+    async findSteam() {
+      if (!options.steamPath) return undefined;
+      const root = options.steamPath;
+      return { steamPath: root, steamExe: join(root, "steam"), configPath: join(root, "config") };
+    },
+    async openPath(path) {
+      calls.push({ type: "openPath", path });
+    },
+    async openUrl(url) {
+      calls.push({ type: "openUrl", url });
+    },
+    async listProcesses() {
+      return [...processes];
+    },
+    async killProcess(target, killOptions) {
+      calls.push({ type: "kill", target, force: !!killOptions?.force });
+      const before = processes.length;
+      for (let i = processes.length - 1; i >= 0; i--) {
+        const p = processes[i];
+        if (typeof target === "number" ? p.pid === target : p.name === target) processes.splice(i, 1);
+      }
+      if (processes.length === before) throw new Error(`No process found: ${target}`);
+    },
+    async spawn(command, args = []) {
+      calls.push({ type: "spawn", command, args });
+    },
+    async startSteam(paths, args = []) {
+      calls.push({ type: "startSteam", args });
+      if (!processes.some((p) => p.name === host.steamProcessName)) {
+        processes.push({ pid: nextPid++, name: host.steamProcessName, path: paths.steamExe });
+      }
+    },
+  };
+  return host;
+}
+
+let defaultHost: SteamHost | undefined;
+
+/**
+ * Host for the current platform. Windows is the default for anything that is not Linux,
+ * matching the extension's original target.
+ */
+export function getHost(): SteamHost {
+  if (!defaultHost) defaultHost = isLinux ? createLinuxHost() : createWindowsHost();
+  return defaultHost;
+}
@@ -1,35 +1,93 @@
-import { exec } from "child_process";
-import { promisify } from "util";
+import { execFile, spawn } from "child_process";
+import { statfs } from "fs/promises";
 import { showFailureToast } from "@raycast/utils";
+import { CommandResult } from "../types";
 
 // Platform utility
 export const isWindows = process.platform === "win32";
+export const isLinux = process.platform === "linux";
 
-const execAsync = promisify(exec);
+/**
+ * Run an executable with an argument array and collect its output.
+ * No shell is involved, so paths containing quotes, spaces or `&` are passed through verbatim.
+ * @param file - Executable name or path
+ * @param args - Arguments, one per array element
+ * @param options - Per-call timeout in milliseconds (default 10s) and output encoding
+ * @returns Structured result; never rejects, failures are reported through `success`/`error`
+ */
+export function executeCommand(
+  file: string,
+  args: string[] = [],
+  options?: { timeout?: number; encoding?: BufferEncoding },
+): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    execFile(
+      file,
+      args,
+      {
+        timeout: options?.timeout ?? 10000,
+        encoding: options?.encoding ?? "utf8",
+        windowsHide: true,
+      },
+      (error, stdout, stderr) => {
+        const output = String(stdout ?? "").trim();
+        if (!error) {
+          resolve({ success: true, output, exitCode: 0 });
+          return;
+        }
+        const code = (error as NodeJS.ErrnoException).code;
+        const message = error.killed
+          ? `Timed out after ${options?.timeout ?? 10000}ms`
+          : String(stderr ?? "").trim() || error.message.trim();
+        console.error(`Command failed: ${file} ${args.join(" ")}`, message);
+        resolve({
+          success: false,
+          output,
+          error: message,
+          exitCode: typeof code === "number" ? code : undefined,
+        });
+      },
+    );
+  });
+}
 
 /**
- * Execute a Windows command and return the result
- * @param command - The command to execute
- * @param options - Additional options for command execution
- * @returns Promise with command output
+ * Run a command and return its output, throwing if it fails
+ * @param file - Executable name or path
+ * @param args - Arguments, one per array element
+ * @param options - Per-call timeout and output encoding
+ * @returns Trimmed stdout
  */
-export async function executeCommand(
-  command: string,
+export async function executeCommandOrThrow(
+  file: string,
+  args: string[] = [],
   options?: { timeout?: number; encoding?: BufferEncoding },
 ): Promise<string> {
-  try {
-    if (!isWindows) {
-      throw new Error("This command requires Windows (win32)");
-    }
-    const { stdout } = await execAsync(command, {
-      timeout: options?.timeout || 10000,
-      encoding: options?.encoding || "utf8",
-    });
-    return stdout.trim();
-  } catch (error) {
-    console.error(`Command failed: ${command}`, error);
-    throw error;
+  const result = await executeCommand(file, args, options);
+  if (!result.success) {
+    throw new Error(result.error || `${file} exited with code ${result.exitCode ?? "unknown"}`);
   }
+  return result.output ?? "";
+}
+
+/**
+ * Start a process without waiting for it to exit (e.g. Steam itself or xdg-open)
+ * @param command - Executable name or path
+ * @param args - Arguments passed as-is, without a shell
+ * @returns Promise that resolves once the process has been spawned
+ */
+export function spawnDetached(command: string, args: string[] = []): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { detached: true, stdio: "ignore" });
+    child.once("error", (error) => {
+      console.error(`Failed to start: ${command}`, error);
+      reject(error);
+    });
+    child.once("spawn", () => {
+      child.unref();
+      resolve();
+    });
+  });
 }
 
 /**
@@ -81,6 +139,30 @@ export function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
 }
 
+/**
+ * Free and total space of the file system holding `path`
+ * @param path - Any existing path on the drive
+ * @returns Sizes in bytes, or undefined if the path cannot be queried
+ */
+export async function getDiskSpace(path: string): Promise<{ free: number; total: number } | undefined> {
+  try {
+    const st = await statfs(path);
+    return { free: st.bavail * st.bsize, total: st.blocks * st.bsize };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Windows drive letter of a path
+ * @param p - Absolute path
+ * @returns Upper-case drive such as "D:", or undefined for paths without one
+ */
+export function driveOf(p: string): string | undefined {
+  const m = /^[A-Za-z]:/.exec(p);
+  return m ? m[0].toUpperCase() : undefined;
+}
+
 /**
  * Debounce function to limit the rate of function calls
  * @param func - Function to debounce
@@ -0,0 +1,34 @@
+import { showToast, Toast } from "@raycast/api";
+import { SteamHost } from "./host";
+import { recordLaunch } from "./sessions";
+import { launchSteamGame, SteamPaths } from "./steam";
+import { showFailure } from "./index";
+
+/**
+ * Launch a game with the same toasts as the game list and open a play-journal session for it.
+ * `args` are passed for this launch only. Returns false if the launch failed; the failure toast
+ * has already been shown.
+ */
+export async function launchGameWithFeedback(
+  host: SteamHost,
+  game: { appid: string; name: string },
+  options?: { steamId64?: string; paths?: SteamPaths; args?: string },
+): Promise<boolean> {
+  try {
+    await showToast({
+      style: Toast.Style.Animated,
+      title: `Launching ${game.name}...`,
+    });
+    await launchSteamGame(host, game.appid, options?.args);
+    await showToast({
+      style: Toast.Style.Success,
+      title: `Launched ${game.name}`,
+      message: options?.args ? `With ${options.args}` : "Game should start shortly",
+    });
+  } catch (e: unknown) {
+    await showFailure(e, { title: `Launch failed: ${game.name}` });
+    return false;
+  }
+  await recordLaunch(host, game, options?.steamId64, options?.paths);
+  return true;
+}
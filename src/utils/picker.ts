@@ -0,0 +1,79 @@
+import { LocalStorage } from "@raycast/api";
+import { SteamGame } from "./steam";
+
+// Appids the user never wants suggested again, stored as a JSON array
+const EXCLUDED_KEY = "steam-picker-excluded";
+
+// Days since last played beyond which a game gets no extra weight
+const MAX_WEIGHT_DAYS = 365;
+
+export interface PickFilters {
+  favoritesOnly: boolean;
+  played: "any" | "never" | "under"; // "under" uses maxHours
+  maxHours?: number; // required with "under"
+  maxSizeGb?: number;
+  drive?: string; // drive letter, or library path where there are no drive letters
+  tag?: string; // one of your own tags or a Steam store tag
+}
+
+// An installed game with what the filters need to know about it
+export interface PickCandidate {
+  game: SteamGame;
+  favorite: boolean;
+  playtimeMinutes: number;
+  lastPlayed?: Date;
+  sizeBytes?: number;
+  drive: string; // drive letter, or library path where there are no drive letters
+  genres: string[];
+  tags: string[]; // your own tags, then Steam store tags
+}
+
+export function matchesFilters(c: PickCandidate, f: PickFilters): boolean {
+  if (f.favoritesOnly && !c.favorite) return false;
+  if (f.played === "never" && c.playtimeMinutes > 0) return false;
+  // Without a limit nothing is "under" it, rather than the filter being skipped
+  if (f.played === "under" && c.playtimeMinutes >= (f.maxHours ?? 0) * 60) return false;
+  if (f.maxSizeGb !== undefined && (c.sizeBytes ?? 0) > f.maxSizeGb * 1024 ** 3) return false;
+  if (f.drive && c.drive !== f.drive) return false;
+  if (f.tag && !c.tags.includes(f.tag)) return false;
+  return true;
+}
+
+export async function loadExcludedGames(): Promise<Set<string>> {
+  try {
+    const raw = await LocalStorage.getItem<string>(EXCLUDED_KEY);
+    return new Set(raw ? (JSON.parse(raw) as string[]) : []);
+  } catch {
+    return new Set(); // ignore corrupt storage
+  }
+}
+
+export async function excludeGame(appid: string): Promise<Set<string>> {
+  const excluded = await loadExcludedGames();
+  excluded.add(appid);
+  await LocalStorage.setItem(EXCLUDED_KEY, JSON.stringify([...excluded]));
+  return excluded;
+}
+
+export async function clearExcludedGames(): Promise<void> {
+  await LocalStorage.removeItem(EXCLUDED_KEY);
+}
+
+/**
+ * Weight for a random pick: grows with the days since the game was last played, so long-untouched
+ * and never-played games come up more often without recent ones disappearing.
+ */
+export function pickWeight(lastPlayed: Date | undefined, now = Date.now()): number {
+  const days = lastPlayed ? Math.max(0, (now - lastPlayed.getTime()) / 86400000) : MAX_WEIGHT_DAYS;
+  return 1 + Math.min(days, MAX_WEIGHT_DAYS) / 30;
+}
+
+export function pickWeighted<T>(items: T[], weight: (item: T) => number, random = Math.random): T | undefined {
+  const total = items.reduce((sum, item) => sum + weight(item), 0);
+  let r = random() * total;
+  for (const item of items) {
+    r -= weight(item);
+    if (r < 0) return item;
+  }
+  return items[items.length - 1];
+}
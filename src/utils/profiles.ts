@@ -0,0 +1,84 @@
+import { LocalStorage } from "@raycast/api";
+import { randomUUID } from "crypto";
+import { SteamHost } from "./host";
+import { launchSteamGame } from "./steam";
+
+export interface LaunchProfile {
+  id: string;
+  name: string;
+  args: string; // extra arguments for this launch, e.g. "-dx11 -novid"
+  bigPictureFirst?: boolean; // open Big Picture before launching
+  envHints?: string; // free-form reminder such as "PROTON_LOG=1", shown when launching
+}
+
+export interface GameLaunchProfiles {
+  profiles: LaunchProfile[];
+  lastUsed?: string; // profile id; undefined when the game was last launched without a profile
+}
+
+// appid -> profiles, stored as JSON next to "steam-favorites"
+export type LaunchProfileStore = Record<string, GameLaunchProfiles>;
+
+const STORAGE_KEY = "steam-launch-profiles";
+
+export async function loadLaunchProfiles(): Promise<LaunchProfileStore> {
+  try {
+    const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as LaunchProfileStore) : {};
+  } catch {
+    return {}; // ignore corrupt storage
+  }
+}
+
+async function updateLaunchProfiles(
+  appid: string,
+  update: (game: GameLaunchProfiles) => GameLaunchProfiles,
+): Promise<LaunchProfileStore> {
+  const store = await loadLaunchProfiles();
+  const game = update(store[appid] ?? { profiles: [] });
+  if (game.profiles.length === 0) delete store[appid];
+  else store[appid] = game;
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  return store;
+}
+
+/**
+ * Add a profile, or replace the one with the same id
+ */
+export function saveLaunchProfile(
+  appid: string,
+  profile: Omit<LaunchProfile, "id"> & { id?: string },
+): Promise<LaunchProfileStore> {
+  const saved: LaunchProfile = { ...profile, id: profile.id ?? randomUUID() };
+  return updateLaunchProfiles(appid, (game) => {
+    const exists = game.profiles.some((p) => p.id === saved.id);
+    return {
+      ...game,
+      profiles: exists ? game.profiles.map((p) => (p.id === saved.id ? saved : p)) : [...game.profiles, saved],
+    };
+  });
+}
+
+export function deleteLaunchProfile(appid: string, id: string): Promise<LaunchProfileStore> {
+  return updateLaunchProfiles(appid, (game) => ({
+    profiles: game.profiles.filter((p) => p.id !== id),
+    lastUsed: game.lastUsed === id ? undefined : game.lastUsed,
+  }));
+}
+
+export function setLastUsedProfile(appid: string, id: string | undefined): Promise<LaunchProfileStore> {
+  return updateLaunchProfiles(appid, (game) => ({ ...game, lastUsed: id }));
+}
+
+export function getLastUsedProfile(store: LaunchProfileStore, appid: string): LaunchProfile | undefined {
+  const game = store[appid];
+  return game?.lastUsed ? game.profiles.find((p) => p.id === game.lastUsed) : undefined;
+}
+
+export async function launchWithProfile(host: SteamHost, appid: string, profile: LaunchProfile): Promise<void> {
+  if (profile.bigPictureFirst) {
+    await host.openUrl("steam://open/bigpicture");
+    await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait for Big Picture to load
+  }
+  await launchSteamGame(host, appid, profile.args);
+}
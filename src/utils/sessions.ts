@@ -0,0 +1,183 @@
+import { LocalStorage } from "@raycast/api";
+import { SteamHost } from "./host";
+import { getAppUsage, getCurrentSteamUser, RunningGame, SteamAppUsage, SteamPaths } from "./steam";
+
+// A finished play session. Times are ISO strings so the journal survives JSON round-trips
+export interface PlaySession {
+  appid: string;
+  name: string;
+  start: string;
+  end: string;
+  minutes: number;
+}
+
+// A launch whose end has not been observed yet
+export interface OpenPlaySession {
+  appid: string;
+  name: string;
+  start: string;
+  playtimeAtStart?: number; // Steam's Playtime counter in localconfig.vdf at launch
+  lastSeenRunning?: string; // last time the process list showed the game
+}
+
+export interface PlayJournal {
+  sessions: PlaySession[]; // oldest first
+  open: OpenPlaySession[];
+}
+
+const STORAGE_KEY = "steam-play-journal";
+// Oldest sessions are dropped beyond this, keeping LocalStorage small
+const MAX_SESSIONS = 5000;
+// A launch never seen running and without new playtime after this long probably failed to start
+const STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+// How often lastSeenRunning is persisted while a game keeps running
+const SEEN_RUNNING_RESOLUTION_MS = 60 * 1000;
+
+export async function loadPlayJournal(): Promise<PlayJournal> {
+  try {
+    const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+    const journal = raw ? (JSON.parse(raw) as Partial<PlayJournal>) : {};
+    return { sessions: journal.sessions ?? [], open: journal.open ?? [] };
+  } catch {
+    return { sessions: [], open: [] }; // ignore corrupt storage
+  }
+}
+
+async function savePlayJournal(journal: PlayJournal): Promise<void> {
+  journal.sessions = journal.sessions.slice(-MAX_SESSIONS);
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(journal));
+}
+
+/**
+ * Record a launch. A still-open session for the same game is replaced, since Steam only runs one copy.
+ */
+export async function startPlaySession(appid: string, name: string, playtimeAtStart?: number): Promise<void> {
+  const journal = await loadPlayJournal();
+  journal.open = [
+    ...journal.open.filter((s) => s.appid !== appid),
+    { appid, name, start: new Date().toISOString(), playtimeAtStart },
+  ];
+  await savePlayJournal(journal);
+}
+
+/**
+ * Open a session for a launch. Steam's Playtime counter is read fresh so its growth measures the session.
+ * Without `steamId64` the signed-in account is looked up. Best effort: the journal never blocks a launch.
+ */
+export async function recordLaunch(
+  host: SteamHost,
+  game: { appid: string; name: string },
+  steamId64?: string,
+  paths?: SteamPaths,
+): Promise<void> {
+  try {
+    const user = steamId64 ?? (await getCurrentSteamUser(host, paths));
+    const usage = user ? await getAppUsage(host, user, paths) : {};
+    await startPlaySession(game.appid, game.name, usage[game.appid]?.playtimeMinutes);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/**
+ * Close open sessions whose game is no longer running. The end comes from the growth of Steam's
+ * Playtime counter when it has been written, otherwise from the last time the game was seen running.
+ * `running` is the current process snapshot; `loadUsage` is only called when a session may have ended.
+ */
+export async function reconcilePlaySessions(
+  running: RunningGame[],
+  loadUsage: () => Promise<Record<string, SteamAppUsage>>,
+  now = new Date(),
+): Promise<PlayJournal> {
+  const journal = await loadPlayJournal();
+  if (journal.open.length === 0) return journal;
+
+  let usage: Record<string, SteamAppUsage> | undefined;
+  let changed = false;
+  const stillOpen: OpenPlaySession[] = [];
+  for (const open of journal.open) {
+    const start = new Date(open.start);
+    const run = running.find((r) => r.appid === open.appid);
+    if (run) {
+      const lastSeen = open.lastSeenRunning ? new Date(open.lastSeenRunning).getTime() : 0;
+      if (now.getTime() - lastSeen >= SEEN_RUNNING_RESOLUTION_MS) {
+        open.lastSeenRunning = now.toISOString();
+        changed = true;
+      }
+      stillOpen.push(open);
+      continue;
+    }
+
+    usage ??= await loadUsage();
+    const playtime = usage[open.appid]?.playtimeMinutes;
+    const delta = open.playtimeAtStart !== undefined && playtime !== undefined ? playtime - open.playtimeAtStart : 0;
+    let end: Date | undefined;
+    if (delta > 0) {
+      end = new Date(Math.min(now.getTime(), start.getTime() + delta * 60000));
+    } else if (open.lastSeenRunning) {
+      end = new Date(open.lastSeenRunning);
+    }
+
+    if (end) {
+      journal.sessions.push({
+        appid: open.appid,
+        name: open.name,
+        start: open.start,
+        end: end.toISOString(),
+        minutes: delta > 0 ? delta : Math.max(1, Math.round((end.getTime() - start.getTime()) / 60000)),
+      });
+      changed = true;
+    } else if (now.getTime() - start.getTime() > STALE_AFTER_MS) {
+      changed = true; // never observed; drop it
+    } else {
+      stillOpen.push(open); // the game may still be starting
+    }
+  }
+
+  journal.open = stillOpen;
+  if (changed) await savePlayJournal(journal);
+  return journal;
+}
+
+// Local calendar day as YYYY-MM-DD; sessions count towards the day they started
+export function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function minutesByDay(sessions: PlaySession[]): Map<string, number> {
+  const days = new Map<string, number>();
+  for (const s of sessions) {
+    const key = dayKey(new Date(s.start));
+    days.set(key, (days.get(key) ?? 0) + s.minutes);
+  }
+  return days;
+}
+
+/**
+ * Consecutive days with at least one session. The current streak still counts when today has
+ * no session yet but yesterday did.
+ */
+export function getStreaks(sessions: PlaySession[], today = new Date()): { current: number; longest: number } {
+  const days = [...minutesByDay(sessions).keys()].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: Date | undefined;
+  for (const key of days) {
+    const [y, m, d] = key.split("-").map(Number);
+    const date = new Date(y, m - 1, d);
+    run = previous && dayKey(new Date(y, m - 1, d - 1)) === dayKey(previous) ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  const played = new Set(days);
+  const cursor = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  if (!played.has(dayKey(cursor))) cursor.setDate(cursor.getDate() - 1);
+  let current = 0;
+  while (played.has(dayKey(cursor))) {
+    current++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return { current, longest };
+}
@@ -1,35 +1,77 @@
-import { existsSync, readdirSync, statSync, readFileSync } from "fs";
-import { join } from "path";
-import { executeCommand } from "./index";
-import { parseVDF } from "./vdf";
+import { Cache } from "@raycast/api";
+import { existsSync, readdirSync, readFileSync, realpathSync, watch, Dirent, FSWatcher } from "fs";
+import { readdir, rm, stat } from "fs/promises";
+import { basename, dirname, isAbsolute, join, resolve, win32 } from "path";
+import { ProcessInfo } from "../types";
+import { SteamHost } from "./host";
+import { debounce } from "./index";
+import { getVDFChild, getVDFDocumentEntry, parseVDF, readVDFDocument, setVDFDocumentValue, writeVDFFile } from "./vdf";
+import { AppCommonInfo, getAppCommonInfo, parseAppInfoFile } from "./appinfo";
+import { BinaryVDFObject, parseBinaryVDF } from "./binaryvdf";
 
 export interface SteamPaths {
   steamPath: string; // root Steam install
-  steamExe: string; // steam.exe path
+  steamExe: string; // steam.exe path on Windows, `steam` binary on Linux
   configPath: string; // <SteamPath>\config
+  flatpak?: boolean; // Linux Flatpak install, launched through `flatpak run`
 }
 
-// Calculate directory size recursively
-function getDirectorySize(dirPath: string): number {
-  let totalSize = 0;
+// Exact directory sizes keyed by path; an entry is reused while the directory's mtime is unchanged
+const dirSizeCache = new Cache({ namespace: "steam-dir-sizes" });
 
+/**
+ * Calculate the total size of a directory without blocking the event loop.
+ * Results are cached against the directory's mtime. Returns undefined if the walk was
+ * aborted through `signal` or the directory cannot be read.
+ */
+export async function getDirectorySize(dirPath: string, signal?: AbortSignal): Promise<number | undefined> {
+  let mtimeMs: number;
   try {
-    const items = readdirSync(dirPath);
+    mtimeMs = (await stat(dirPath)).mtimeMs;
+  } catch {
+    return undefined;
+  }
 
-    for (const item of items) {
-      const fullPath = join(dirPath, item);
-      const stat = statSync(fullPath);
+  const cached = dirSizeCache.get(dirPath);
+  if (cached) {
+    try {
+      const entry = JSON.parse(cached) as { mtimeMs: number; size: number };
+      if (entry.mtimeMs === mtimeMs) return entry.size;
+    } catch {
+      // ignore corrupt cache entry and rescan
+    }
+  }
 
-      if (stat.isDirectory()) {
-        totalSize += getDirectorySize(fullPath);
-      } else if (stat.isFile()) {
-        totalSize += stat.size;
-      }
+  let totalSize = 0;
+  const pending = [dirPath];
+  while (pending.length > 0) {
+    if (signal?.aborted) return undefined;
+    const dir = pending.pop() as string;
+    let entries: Dirent[];
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      continue; // skip unreadable folders
     }
-  } catch (error) {
-    console.log(`Could not calculate size for ${dirPath}`);
+    const files: string[] = [];
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) pending.push(fullPath);
+      else if (entry.isFile()) files.push(fullPath);
+    }
+    const sizes = await Promise.all(
+      files.map((f) =>
+        stat(f).then(
+          (st) => st.size,
+          () => 0,
+        ),
+      ),
+    );
+    for (const size of sizes) totalSize += size;
   }
 
+  if (signal?.aborted) return undefined;
+  dirSizeCache.set(dirPath, JSON.stringify({ mtimeMs, size: totalSize }));
   return totalSize;
 }
 
@@ -50,42 +92,38 @@ function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
 }
 
-
-export async function restartSteam(paths?: SteamPaths): Promise<void> {
-  const p = paths ?? (await getSteamInstallPath());
-  if (!p) throw new Error("Steam installation not found");
+async function stopSteam(host: SteamHost): Promise<void> {
   // Kill steam if running, ignore error if not running
   try {
-    await executeCommand(`taskkill /IM steam.exe /F`);
+    await host.killProcess(host.steamProcessName, { force: true });
     // Wait a moment for Steam to fully terminate
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    await new Promise((resolve) => setTimeout(resolve, 2000));
   } catch {
     // ignore if Steam isn't running
   }
-  // Launch Steam with proper context using explorer.exe to preserve user permissions
-  // This ensures NVIDIA driver access is maintained
-  await executeCommand(`explorer.exe "${p.steamExe}"`);
 }
 
-export async function openSteam(paths?: SteamPaths): Promise<void> {
-  const p = paths ?? (await getSteamInstallPath());
+export async function restartSteam(host: SteamHost, paths?: SteamPaths): Promise<void> {
+  const p = paths ?? (await getSteamInstallPath(host));
   if (!p) throw new Error("Steam installation not found");
-  // Use explorer.exe to launch Steam with proper user context
-  await executeCommand(`explorer.exe "${p.steamExe}"`);
+  await stopSteam(host);
+  await host.startSteam(p);
 }
 
-export async function openSteamConfigFolder(paths?: SteamPaths): Promise<void> {
-  const p = paths ?? (await getSteamInstallPath());
+export async function openSteam(host: SteamHost, paths?: SteamPaths): Promise<void> {
+  const p = paths ?? (await getSteamInstallPath(host));
   if (!p) throw new Error("Steam installation not found");
-  // Use Windows 'start' for reliability
-  await executeCommand(`start "" "${p.configPath}"`);
+  await host.startSteam(p);
 }
 
+export async function openSteamConfigFolder(host: SteamHost, paths?: SteamPaths): Promise<void> {
+  const p = paths ?? (await getSteamInstallPath(host));
+  if (!p) throw new Error("Steam installation not found");
+  await host.openPath(p.configPath);
+}
 
-
-
-export async function getSteamUserDisplayName(steamId64: string, paths?: SteamPaths): Promise<string> {
-  const p = paths ?? (await getSteamInstallPath());
+export async function getSteamUserDisplayName(host: SteamHost, steamId64: string, paths?: SteamPaths): Promise<string> {
+  const p = paths ?? (await getSteamInstallPath(host));
   if (!p) return steamId64; // Fallback to ID if Steam not found
 
   const loginUsersPath = join(p.configPath, "loginusers.vdf");
@@ -118,8 +156,8 @@ export async function getSteamUserDisplayName(steamId64: string, paths?: SteamPa
   }
 }
 
-export async function getCurrentSteamUser(paths?: SteamPaths): Promise<string | undefined> {
-  const p = paths ?? (await getSteamInstallPath());
+export async function getCurrentSteamUser(host: SteamHost, paths?: SteamPaths): Promise<string | undefined> {
+  const p = paths ?? (await getSteamInstallPath(host));
   if (!p) return undefined;
   const loginUsersPath = join(p.configPath, "loginusers.vdf");
   if (!existsSync(loginUsersPath)) return undefined;
@@ -140,7 +178,7 @@ export async function getCurrentSteamUser(paths?: SteamPaths): Promise<string |
     }
     if (mostRecent) return mostRecent;
     // Fallback to AutoLoginUser registry value -> match AccountName
-    const autoLogin = await readRegistryString("HKCU\\Software\\Valve\\Steam", "AutoLoginUser");
+    const autoLogin = await host.readRegistryString("HKCU\\Software\\Valve\\Steam", "AutoLoginUser");
     if (autoLogin) {
       const match = users.find((u) => u === autoLogin);
       if (match) return match;
@@ -151,18 +189,299 @@ export async function getCurrentSteamUser(paths?: SteamPaths): Promise<string |
   }
 }
 
-export async function listInstalledGames(steamPath: string): Promise<SteamGame[]> {
-  const games = listAllInstalledGames(steamPath);
+export interface SteamLoginUser {
+  steamId64: string;
+  accountName: string;
+  personaName: string;
+  mostRecent: boolean;
+  rememberPassword: boolean; // Steam can sign in without a password prompt
+  allowAutoLogin: boolean;
+  lastLogin?: Date;
+}
+
+/**
+ * Accounts that have signed in on this machine, from config/loginusers.vdf.
+ * The most recent account comes first, then by last login.
+ */
+export async function getLoginUsers(host: SteamHost, paths?: SteamPaths): Promise<SteamLoginUser[]> {
+  const p = paths ?? (await getSteamInstallPath(host));
+  if (!p) return [];
+  const loginUsersPath = join(p.configPath, "loginusers.vdf");
+  if (!existsSync(loginUsersPath)) return [];
+  const v = parseVDF(readFileSync(loginUsersPath, "utf8"));
+  const root = getVDFChild(v, "users") ?? v;
+  const users: SteamLoginUser[] = [];
+  for (const key of Object.keys(root)) {
+    const u = root[key];
+    if (!u || typeof u !== "object" || Array.isArray(u)) continue;
+    const timestamp = parseInt(getStr(u, "Timestamp"), 10);
+    users.push({
+      steamId64: key,
+      accountName: getStr(u, "AccountName"),
+      personaName: getStr(u, "PersonaName"),
+      mostRecent: getStr(u, "MostRecent") === "1",
+      rememberPassword: getStr(u, "RememberPassword") === "1",
+      allowAutoLogin: getStr(u, "AllowAutoLogin") === "1",
+      lastLogin: timestamp > 0 ? new Date(timestamp * 1000) : undefined,
+    });
+  }
+  return users.sort(
+    (a, b) =>
+      Number(b.mostRecent) - Number(a.mostRecent) || (b.lastLogin?.getTime() ?? 0) - (a.lastLogin?.getTime() ?? 0),
+  );
+}
+
+/**
+ * Make Steam sign in to `steamId64` on its next start and restart it: sets AutoLoginUser and
+ * marks the account as MostRecent with AllowAutoLogin in loginusers.vdf.
+ * Only works for accounts with a remembered password.
+ */
+export async function switchSteamAccount(host: SteamHost, steamId64: string, paths?: SteamPaths): Promise<void> {
+  const p = paths ?? (await getSteamInstallPath(host));
+  if (!p) throw new Error("Steam installation not found");
+  const users = await getLoginUsers(host, p);
+  const user = users.find((u) => u.steamId64 === steamId64);
+  if (!user) throw new Error(`Account ${steamId64} has never signed in on this computer`);
+  if (!user.rememberPassword) {
+    throw new Error(
+      `Steam has no saved password for ${user.accountName}. Sign in once with "Remember me" checked, then switch again.`,
+    );
+  }
+
+  // Steam rewrites loginusers.vdf when it exits, so stop it before editing
+  await stopSteam(host);
+  const loginUsersPath = join(p.configPath, "loginusers.vdf");
+  const doc = await readVDFDocument(loginUsersPath);
+  for (const u of users) {
+    const mostRecent = ["users", u.steamId64, "MostRecent"];
+    if (u.steamId64 === steamId64 || getVDFDocumentEntry(doc, mostRecent)) {
+      setVDFDocumentValue(doc, mostRecent, u.steamId64 === steamId64 ? "1" : "0");
+    }
+  }
+  setVDFDocumentValue(doc, ["users", steamId64, "AllowAutoLogin"], "1");
+  await writeVDFFile(loginUsersPath, doc);
+  await host.writeRegistryString("HKCU\\Software\\Valve\\Steam", "AutoLoginUser", user.accountName);
+  await host.startSteam(p);
+}
+
+// Offset between a SteamID64 and the 32-bit account ID used for userdata folders
+const STEAMID64_BASE = BigInt("76561197960265728");
+
+/**
+ * Convert a SteamID64 (as stored in loginusers.vdf) to the 32-bit account ID used under userdata/
+ */
+export function steamId64ToAccountId(steamId64: string): string | undefined {
+  const trimmed = steamId64.trim();
+  if (!/^\d+$/.test(trimmed)) return undefined;
+  const id = BigInt(trimmed);
+  // Values below the base are already account IDs
+  if (id < STEAMID64_BASE) return id.toString();
+  return (id & BigInt(0xffffffff)).toString();
+}
+
+export interface SteamAppUsage {
+  playtimeMinutes: number; // total playtime
+  playtime2wksMinutes: number; // playtime over the last two weeks
+  lastPlayed?: Date; // undefined when never launched
+}
+
+export function getUserDataPath(steamPath: string, steamId64: string): string | undefined {
+  const accountId = steamId64ToAccountId(steamId64);
+  if (!accountId) return undefined;
+  return join(steamPath, "userdata", accountId);
+}
+
+function getLocalConfigPath(steamPath: string, steamId64: string): string | undefined {
+  const userData = getUserDataPath(steamPath, steamId64);
+  return userData ? join(userData, "config", "localconfig.vdf") : undefined;
+}
+
+/**
+ * Read per-app playtime and last-played data from userdata/<accountId>/config/localconfig.vdf
+ * Returns a map of appid -> usage; apps Steam has no record for are absent.
+ */
+export async function getAppUsage(
+  host: SteamHost,
+  steamId64: string,
+  paths?: SteamPaths,
+): Promise<Record<string, SteamAppUsage>> {
+  const usage: Record<string, SteamAppUsage> = {};
+  const p = paths ?? (await getSteamInstallPath(host));
+  if (!p) return usage;
+  const localConfigPath = getLocalConfigPath(p.steamPath, steamId64);
+  if (!localConfigPath || !existsSync(localConfigPath)) return usage;
+
+  try {
+    const raw = readFileSync(localConfigPath, "utf8");
+    const v = parseVDF(raw);
+    const root = getVDFChild(v, "UserLocalConfigStore") ?? v;
+    const apps = getVDFChild(getVDFChild(getVDFChild(getVDFChild(root, "Software"), "Valve"), "Steam"), "apps");
+    if (!apps) return usage;
+
+    for (const appid of Object.keys(apps)) {
+      const entry = apps[appid];
+      if (!entry || typeof entry !== "object") continue;
+      const app = entry as Record<string, unknown>;
+      const playtimeMinutes = parseInt(getStr(app, "Playtime"), 10) || 0;
+      const playtime2wksMinutes = parseInt(getStr(app, "Playtime2wks"), 10) || 0;
+      const lastPlayedSecs = parseInt(getStr(app, "LastPlayed"), 10) || 0;
+      usage[appid] = {
+        playtimeMinutes,
+        playtime2wksMinutes,
+        lastPlayed: lastPlayedSecs > 0 ? new Date(lastPlayedSecs * 1000) : undefined,
+      };
+    }
+  } catch {
+    // ignore malformed localconfig, callers treat games as never played
+  }
+  return usage;
+}
+
+// Metadata already decoded from appinfo.vdf, valid while the file's mtime is unchanged
+const appMetadataCache = new Cache({ namespace: "steam-app-metadata" });
 
-  // Return all installed games - no filtering, let UI handle categorization
-  const installedGames = games.filter(g => g.installed);
+interface AppMetadataCacheEntry {
+  appInfoPath: string;
+  mtimeMs: number;
+  apps: Record<string, AppCommonInfo | null>; // null: looked up, but not in appinfo.vdf
+}
 
-  return installedGames;
+function readAppMetadataCache(appInfoPath: string, mtimeMs: number): AppMetadataCacheEntry {
+  const empty: AppMetadataCacheEntry = { appInfoPath, mtimeMs, apps: {} };
+  const raw = appMetadataCache.get("metadata");
+  if (!raw) return empty;
+  try {
+    const entry = JSON.parse(raw, (key, value) =>
+      key === "releaseDate" && typeof value === "string" ? new Date(value) : value,
+    ) as AppMetadataCacheEntry;
+    return entry.appInfoPath === appInfoPath && entry.mtimeMs === mtimeMs ? entry : empty;
+  } catch {
+    return empty; // ignore a corrupt cache and re-parse
+  }
+}
+
+/**
+ * Read genres, developer, publisher, store tags and app type for the given apps from the
+ * local appcache/appinfo.vdf. Works offline; apps missing from the cache are absent.
+ * appinfo.vdf is often over 100 MB, so it is only parsed for apps not decoded since it last changed.
+ */
+export async function getAppMetadata(steamPath: string, appids: string[]): Promise<Record<string, AppCommonInfo>> {
+  const metadata: Record<string, AppCommonInfo> = {};
+  const appInfoPath = join(steamPath, "appcache", "appinfo.vdf");
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(appInfoPath)).mtimeMs;
+  } catch {
+    return metadata;
+  }
+
+  const cached = readAppMetadataCache(appInfoPath, mtimeMs);
+  const unknown = appids.filter((appid) => !(appid in cached.apps));
+  if (unknown.length > 0) {
+    try {
+      const entries = await parseAppInfoFile(appInfoPath, { appids: new Set(unknown) });
+      for (const appid of unknown) {
+        const entry = entries.get(appid);
+        cached.apps[appid] = entry ? getAppCommonInfo(entry) : null;
+      }
+      appMetadataCache.set("metadata", JSON.stringify(cached));
+    } catch (e) {
+      console.error("Failed to read appinfo.vdf", e);
+    }
+  }
+
+  for (const appid of appids) {
+    const info = cached.apps[appid];
+    if (info) metadata[appid] = info;
+  }
+  return metadata;
+}
+
+// Parsed appmanifests keyed by path; an entry is reused while the manifest's mtime is unchanged
+const libraryIndexCache = new Cache({ namespace: "steam-library-index" });
+
+interface LibraryIndexEntry {
+  mtimeMs: number;
+  game?: SteamGame; // undefined for manifests that failed to parse
+}
+
+async function readIndexedManifest(manifestPath: string, libraryPath: string): Promise<SteamGame | undefined> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(manifestPath)).mtimeMs;
+  } catch {
+    libraryIndexCache.remove(manifestPath);
+    return undefined;
+  }
+
+  const cached = libraryIndexCache.get(manifestPath);
+  if (cached) {
+    try {
+      const entry = JSON.parse(cached) as LibraryIndexEntry;
+      if (entry.mtimeMs === mtimeMs) return entry.game;
+    } catch {
+      // ignore corrupt cache entry and re-parse
+    }
+  }
+
+  const entry: LibraryIndexEntry = { mtimeMs, game: readAppManifest(manifestPath, libraryPath) };
+  libraryIndexCache.set(manifestPath, JSON.stringify(entry));
+  return entry.game;
+}
+
+// Paths indexed by the last listing, so entries for deleted manifests can be dropped
+const INDEXED_PATHS_KEY = "indexed-paths";
+
+function pruneLibraryIndex(current: string[]) {
+  let previous: string[] = [];
+  try {
+    previous = JSON.parse(libraryIndexCache.get(INDEXED_PATHS_KEY) ?? "[]") as string[];
+  } catch {
+    // ignore a corrupt list; stale entries are dropped on the next listing
+  }
+  const keep = new Set(current);
+  for (const path of previous) if (!keep.has(path)) libraryIndexCache.remove(path);
+  libraryIndexCache.set(INDEXED_PATHS_KEY, JSON.stringify(current));
+}
+
+/**
+ * Installed games across all libraries. Manifests are only re-parsed when their mtime
+ * changed since the last call; unchanged ones come from the library index cache.
+ */
+export async function listInstalledGames(steamPath: string): Promise<SteamGame[]> {
+  const all: SteamGame[] = [];
+  const indexed: string[] = [];
+  for (const lib of getLibraryFolders(steamPath)) {
+    let files: string[];
+    try {
+      files = await readdir(lib.steamapps);
+    } catch {
+      continue;
+    }
+    const manifests = files
+      .filter((f) => f.startsWith("appmanifest_") && f.endsWith(".acf"))
+      .map((f) => join(lib.steamapps, f));
+    indexed.push(...manifests);
+    const games = await Promise.all(manifests.map((path) => readIndexedManifest(path, lib.path)));
+    for (const game of games) if (game) all.push(game);
+  }
+  pruneLibraryIndex(indexed);
+  // Deduplicate by appid, keep first occurrence
+  const seen = new Set<string>();
+  return all.filter((g) => {
+    if (seen.has(g.appid) || !g.installed) return false;
+    seen.add(g.appid);
+    return true;
+  });
 }
 
 export interface SteamLibrary {
   path: string; // root of the library folder
   steamapps: string; // <library>\steamapps
+  // From newer libraryfolders.vdf entries
+  label?: string; // user-chosen name, often empty
+  totalSize?: number; // bytes; capacity of the drive as last seen by Steam
+  apps?: Record<string, number>; // appid -> bytes used in this library
 }
 
 export interface SteamGame {
@@ -171,43 +490,141 @@ export interface SteamGame {
   installdir: string; // folder under common
   libraryPath: string; // library root
   installed: boolean;
+  status: SteamAppStatus; // decoded StateFlags
   lastOwner?: string; // SteamID64 of the account that last owned/installed
+  sizeOnDisk?: number; // bytes, as reported by the appmanifest
+  progress?: number; // 0..1 while downloading or staging, from BytesDownloaded/BytesStaged
+  download?: SteamDownloadInfo; // set while Steam has download or staging work for the app
+}
+
+export interface SteamDownloadInfo {
+  bytesToDownload: number;
+  bytesDownloaded: number;
+  bytesToStage: number;
+  bytesStaged: number;
+  buildId?: string; // installed build
+  targetBuildId?: string; // build being downloaded
 }
 
+// Steam's EAppState bitmask, as written to StateFlags in appmanifest_*.acf
+export const AppStateFlags = {
+  Invalid: 0,
+  Uninstalled: 1 << 0,
+  UpdateRequired: 1 << 1,
+  FullyInstalled: 1 << 2,
+  Encrypted: 1 << 3,
+  Locked: 1 << 4,
+  FilesMissing: 1 << 5,
+  AppRunning: 1 << 6,
+  FilesCorrupt: 1 << 7,
+  UpdateRunning: 1 << 8,
+  UpdatePaused: 1 << 9,
+  UpdateStarted: 1 << 10,
+  Uninstalling: 1 << 11,
+  BackupRunning: 1 << 12,
+  Reconfiguring: 1 << 16,
+  Validating: 1 << 17,
+  AddingFiles: 1 << 18,
+  Preallocating: 1 << 19,
+  Downloading: 1 << 20,
+  Staging: 1 << 21,
+  Committing: 1 << 22,
+  UpdateStopping: 1 << 23,
+} as const;
 
-function readRegistryString(path: string, value: string): Promise<string | undefined> {
-  // Use reg.exe to query a value
-  // Example: reg query "HKCU\\Software\\Valve\\Steam" /v SteamPath
-  const cmd = `reg query "${path}" /v ${value}`;
-  return executeCommand(cmd, { encoding: "utf8" })
-    .then((out) => {
-      // Example line: "    SteamPath    REG_SZ    C:\\Program Files (x86)\\Steam"
-      const lines = out.split(/\r?\n/);
-      const rx = new RegExp(`^\\s*${value}\\s+REG_\\w+\\s+(.+)$`, "i");
-      for (const line of lines) {
-        const m = line.match(rx);
-        if (m && m[1]) return m[1].trim();
-      }
-      return undefined;
-    })
-    .catch(() => undefined);
+export type AppStateFlag = keyof typeof AppStateFlags;
+
+export type SteamAppStatusKind =
+  | "ready"
+  | "updateRequired"
+  | "updating"
+  | "updatePaused"
+  | "validating"
+  | "uninstalling"
+  | "filesMissing"
+  | "filesCorrupt"
+  | "notInstalled";
+
+export interface SteamAppStatus {
+  kind: SteamAppStatusKind; // most relevant state, for display
+  flags: number; // raw StateFlags value
+  active: AppStateFlag[]; // every flag set in `flags`
+  label: string;
+  needsAttention: boolean; // update required/paused or broken files
+  busy: boolean; // Steam is currently updating, validating or uninstalling the app
 }
 
-export async function getSteamInstallPath(): Promise<SteamPaths | undefined> {
-  const hkcu = await readRegistryString("HKCU\\Software\\Valve\\Steam", "SteamPath");
-  let root = hkcu;
-  if (!root) {
-    const hklmWow = await readRegistryString("HKLM\\SOFTWARE\\WOW6432Node\\Valve\\Steam", "InstallPath");
-    const hklm = await readRegistryString("HKLM\\SOFTWARE\\Valve\\Steam", "InstallPath");
-    root = hklmWow || hklm || undefined;
-  }
-  if (!root) return undefined;
-  const steamExe = join(root, "steam.exe");
-  const configPath = join(root, "config");
-  return { steamPath: root, steamExe, configPath };
+const STATUS_LABELS: Record<SteamAppStatusKind, string> = {
+  ready: "Installed",
+  updateRequired: "Update Required",
+  updating: "Updating",
+  updatePaused: "Update Paused",
+  validating: "Validating",
+  uninstalling: "Uninstalling",
+  filesMissing: "Files Missing",
+  filesCorrupt: "Files Corrupt",
+  notInstalled: "Not Installed",
+};
+
+const ATTENTION_KINDS: SteamAppStatusKind[] = ["updateRequired", "updatePaused", "filesMissing", "filesCorrupt"];
+const BUSY_KINDS: SteamAppStatusKind[] = ["updating", "validating", "uninstalling"];
+
+/**
+ * Decode a StateFlags value into a typed status. The kind is chosen by priority so that
+ * transient operations (uninstall, validate, update) win over steady states.
+ */
+export function decodeStateFlags(flags: number): SteamAppStatus {
+  const has = (f: number) => (flags & f) !== 0;
+  const active = (Object.keys(AppStateFlags) as AppStateFlag[]).filter(
+    (name) => AppStateFlags[name] !== 0 && has(AppStateFlags[name]),
+  );
+
+  let kind: SteamAppStatusKind;
+  if (has(AppStateFlags.Uninstalling)) kind = "uninstalling";
+  else if (has(AppStateFlags.Validating)) kind = "validating";
+  else if (has(AppStateFlags.UpdatePaused)) kind = "updatePaused";
+  else if (
+    has(
+      AppStateFlags.UpdateRunning |
+        AppStateFlags.UpdateStarted |
+        AppStateFlags.Downloading |
+        AppStateFlags.Staging |
+        AppStateFlags.Committing |
+        AppStateFlags.Preallocating |
+        AppStateFlags.AddingFiles |
+        AppStateFlags.Reconfiguring,
+    )
+  )
+    kind = "updating";
+  else if (has(AppStateFlags.FilesCorrupt)) kind = "filesCorrupt";
+  else if (has(AppStateFlags.FilesMissing)) kind = "filesMissing";
+  else if (has(AppStateFlags.UpdateRequired)) kind = "updateRequired";
+  else if (has(AppStateFlags.FullyInstalled)) kind = "ready";
+  else kind = "notInstalled";
+
+  return {
+    kind,
+    flags,
+    active,
+    label: STATUS_LABELS[kind],
+    needsAttention: ATTENTION_KINDS.includes(kind),
+    busy: BUSY_KINDS.includes(kind),
+  };
+}
+
+export async function getSteamInstallPath(host: SteamHost): Promise<SteamPaths | undefined> {
+  return host.findSteam();
+}
+
+/**
+ * Compare key for a folder path. Windows paths are case-insensitive and mix separators: the registry
+ * gives "c:/program files (x86)/steam" where libraryfolders.vdf has "C:\\Program Files (x86)\\Steam".
+ */
+function pathKey(path: string, caseSensitive: boolean): string {
+  return caseSensitive ? resolve(path) : win32.resolve(path).toLowerCase();
 }
 
-export function getLibraryFolders(steamPath: string): SteamLibrary[] {
+export function getLibraryFolders(steamPath: string, caseSensitive = process.platform === "linux"): SteamLibrary[] {
   const primary: SteamLibrary[] = [{ path: steamPath, steamapps: join(steamPath, "steamapps") }];
   // libraryfolders.vdf lives in <SteamPath>\steamapps
   const vdfPath = join(steamPath, "steamapps", "libraryfolders.vdf");
@@ -229,19 +646,42 @@ export function getLibraryFolders(steamPath: string): SteamLibrary[] {
         const pobj = entry as Record<string, unknown>;
         const p = pobj["path"];
         if (typeof p === "string") {
-          primary.push({ path: p, steamapps: join(p, "steamapps") });
+          const label = getStr(pobj, "label").trim();
+          const totalSize = parseInt(getStr(pobj, "totalsize"), 10);
+          const apps: Record<string, number> = {};
+          const appsObj = pobj["apps"];
+          if (appsObj && typeof appsObj === "object" && !Array.isArray(appsObj)) {
+            for (const [appid, size] of Object.entries(appsObj)) {
+              const bytes = typeof size === "string" ? parseInt(size, 10) : NaN;
+              if (Number.isFinite(bytes)) apps[appid] = bytes;
+            }
+          }
+          primary.push({
+            path: p,
+            steamapps: join(p, "steamapps"),
+            label: label || undefined,
+            totalSize: totalSize > 0 ? totalSize : undefined,
+            apps,
+          });
         }
       }
     }
   } catch {
     // ignore parse errors, return at least primary
   }
-  // Deduplicate and only keep those with steamapps existing
-  const seen = new Set<string>();
+  // Deduplicate and only keep those with steamapps existing. The Steam folder itself is usually
+  // listed again in libraryfolders.vdf; keep the first entry but take the metadata from the file.
+  const seen = new Map<string, SteamLibrary>();
   const libs = primary.filter((l) => {
-    const key = l.path.toLowerCase();
-    if (seen.has(key)) return false;
-    seen.add(key);
+    const key = pathKey(l.path, caseSensitive);
+    const first = seen.get(key);
+    if (first) {
+      first.label ??= l.label;
+      first.totalSize ??= l.totalSize;
+      first.apps ??= l.apps;
+      return false;
+    }
+    seen.set(key, l);
     try {
       return existsSync(l.steamapps);
     } catch {
@@ -251,6 +691,68 @@ export function getLibraryFolders(steamPath: string): SteamLibrary[] {
   return libs;
 }
 
+export function getAppManifestPath(libraryPath: string, appid: string): string {
+  return join(libraryPath, "steamapps", `appmanifest_${appid}.acf`);
+}
+
+function ratio(done: number, total: number): number | undefined {
+  return Number.isFinite(done) && Number.isFinite(total) && total > 0 ? Math.min(1, done / total) : undefined;
+}
+
+/**
+ * Read a single appmanifest_*.acf. Returns undefined if it is missing, malformed or has no appid/name.
+ */
+export function readAppManifest(manifestPath: string, libraryPath: string): SteamGame | undefined {
+  try {
+    const raw = readFileSync(manifestPath, "utf8");
+    const v = parseVDF(raw);
+    const app = (v["AppState"] || v) as Record<string, unknown>;
+    const appid = getStr(app, "appid").trim();
+    const name = getStr(app, "name").trim();
+    const installdir = getStr(app, "installdir").trim();
+    const stateFlags = getStr(app, "StateFlags").trim();
+    const lastOwner = getStr(app, "LastOwner").trim();
+    const sizeOnDisk = parseInt(getStr(app, "SizeOnDisk"), 10);
+    // Older manifests may omit StateFlags; treat them as fully installed
+    const status = decodeStateFlags(stateFlags !== "" ? parseInt(stateFlags, 10) || 0 : AppStateFlags.FullyInstalled);
+    // Anything Steam still tracks on disk counts as installed, including games mid-update
+    const installed = status.flags !== AppStateFlags.Invalid && status.flags !== AppStateFlags.Uninstalled;
+    if (!appid || !name) return undefined;
+    const bytes = (key: string) => parseInt(getStr(app, key), 10) || 0;
+    const buildId = getStr(app, "buildid").trim() || undefined;
+    const targetBuildId = getStr(app, "TargetBuildID").trim() || undefined;
+    const download: SteamDownloadInfo = {
+      bytesToDownload: bytes("BytesToDownload"),
+      bytesDownloaded: bytes("BytesDownloaded"),
+      bytesToStage: bytes("BytesToStage"),
+      bytesStaged: bytes("BytesStaged"),
+      buildId,
+      targetBuildId,
+    };
+    const pending =
+      download.bytesToDownload > download.bytesDownloaded ||
+      download.bytesToStage > download.bytesStaged ||
+      (!!targetBuildId && targetBuildId !== "0" && targetBuildId !== buildId);
+    // Staging follows downloading; report whichever phase is underway
+    const downloaded = ratio(download.bytesDownloaded, download.bytesToDownload);
+    const staged = ratio(download.bytesStaged, download.bytesToStage);
+    return {
+      appid,
+      name,
+      installdir,
+      libraryPath,
+      installed,
+      status,
+      lastOwner,
+      sizeOnDisk: Number.isFinite(sizeOnDisk) && sizeOnDisk > 0 ? sizeOnDisk : undefined,
+      progress: status.busy ? (downloaded !== undefined && downloaded < 1 ? downloaded : staged) : undefined,
+      download: pending || status.busy ? download : undefined,
+    };
+  } catch {
+    return undefined; // ignore malformed manifests
+  }
+}
+
 export function getInstalledGamesFromLibrary(library: SteamLibrary): SteamGame[] {
   const games: SteamGame[] = [];
   let files: string[] = [];
@@ -261,30 +763,8 @@ export function getInstalledGamesFromLibrary(library: SteamLibrary): SteamGame[]
   }
   for (const f of files) {
     if (!f.startsWith("appmanifest_") || !f.endsWith(".acf")) continue;
-    const full = join(library.steamapps, f);
-    try {
-      const raw = readFileSync(full, "utf8");
-      const v = parseVDF(raw);
-      const app = (v["AppState"] || v) as Record<string, unknown>;
-      const appid = getStr(app, "appid").trim();
-      const name = getStr(app, "name").trim();
-      const installdir = getStr(app, "installdir").trim();
-      const stateFlags = getStr(app, "StateFlags").trim();
-      const lastOwner = getStr(app, "LastOwner").trim();
-      const installed = stateFlags !== "" ? stateFlags !== "0" : true;
-      if (appid && name) {
-        games.push({
-          appid,
-          name,
-          installdir,
-          libraryPath: library.path,
-          installed,
-          lastOwner,
-        });
-      }
-    } catch {
-      // ignore malformed manifests
-    }
+    const game = readAppManifest(join(library.steamapps, f), library.path);
+    if (game) games.push(game);
   }
   return games;
 }
@@ -304,16 +784,566 @@ export function listAllInstalledGames(steamPath: string): SteamGame[] {
   });
 }
 
-export async function launchSteamGame(appid: string): Promise<void> {
+/**
+ * Launch a game. Extra `args` are passed for this launch only, on top of the saved launch options.
+ */
+export async function launchSteamGame(host: SteamHost, appid: string, args?: string): Promise<void> {
+  const extra = args?.trim() ?? "";
   // Try protocol first
   try {
-    await executeCommand(`start "" "steam://rungameid/${appid}"`);
+    await host.openUrl(extra ? `steam://run/${appid}//${encodeURIComponent(extra)}/` : `steam://rungameid/${appid}`);
     return;
   } catch {
     // protocol may be blocked; fallback below
   }
-  // Fallback to steam.exe -applaunch
-  const paths = await getSteamInstallPath();
+  // Fallback to steam -applaunch
+  const paths = await getSteamInstallPath(host);
   if (!paths) throw new Error("Could not locate Steam installation");
-  await executeCommand(`"${paths.steamExe}" -applaunch ${appid}`);
+  await host.startSteam(paths, ["-applaunch", appid, ...splitArguments(extra)]);
+}
+
+// Split a command line into arguments, honouring double quotes
+export function splitArguments(input: string): string[] {
+  const args: string[] = [];
+  const rx = /"([^"]*)"|(\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = rx.exec(input)) !== null) args.push(m[1] ?? m[2]);
+  return args;
+}
+
+export async function isSteamRunning(host: SteamHost): Promise<boolean> {
+  const name = host.steamProcessName.toLowerCase();
+  const processes = await host.listProcesses();
+  return processes.some((p) => p.name.toLowerCase() === name);
+}
+
+export interface RunningGame {
+  appid: string;
+  processes: ProcessInfo[]; // every process started from the game's install folder
+  startTime?: Date; // earliest process start, when the host reports it
+}
+
+// Forward slashes and, on case-insensitive hosts, lower case, so Windows and Proton paths compare equal
+function normalizeProcessPath(p: string, caseSensitive: boolean): string {
+  const slashed = p.replace(/\\/g, "/");
+  return caseSensitive ? slashed : slashed.toLowerCase();
+}
+
+// Only the executable itself counts: a shell or editor that merely mentions the folder must not match
+function startedFrom(value: string | undefined, folder: string, caseSensitive: boolean): boolean {
+  if (!value) return false;
+  let path = normalizeProcessPath(value, caseSensitive).replace(/^"/, "");
+  // Proton maps the Linux root to Z:
+  if (caseSensitive) path = path.replace(/^[A-Za-z]:(?=\/)/, "");
+  return path.startsWith(folder);
+}
+
+// Compatibility tools and shared runtimes install like games but only ever run on behalf of one
+const TOOL_INSTALL_DIR = /^(proton\b|steamlinuxruntime|steam linux runtime|steamworks shared$|steamvr$)/i;
+
+function isToolInstall(game: { installdir: string; appType?: string }): boolean {
+  if (game.appType) return game.appType.toLowerCase() === "tool";
+  return TOOL_INSTALL_DIR.test(game.installdir);
+}
+
+/**
+ * Games with a process whose executable, or the program its command line starts with, lies under
+ * steamapps/common/<installdir>. The command line catches Proton games, whose executable is Wine.
+ * Tools such as Proton and the Steam Linux Runtime are skipped; `appType` comes from appinfo.vdf
+ * when known, otherwise they are recognised by folder name.
+ */
+export async function getRunningGames(
+  host: SteamHost,
+  games: Array<Pick<SteamGame, "appid" | "libraryPath" | "installdir"> & { appType?: string }>,
+): Promise<RunningGame[]> {
+  const caseSensitive = host.platform === "linux";
+  const folders = games
+    .filter((g) => g.installdir && !isToolInstall(g))
+    .map((g) => ({
+      appid: g.appid,
+      folder: normalizeProcessPath(join(g.libraryPath, "steamapps", "common", g.installdir), caseSensitive) + "/",
+    }));
+  const steamName = host.steamProcessName.toLowerCase();
+  const running = new Map<string, RunningGame>();
+  for (const p of await host.listProcesses({ details: true })) {
+    if (p.name.toLowerCase() === steamName) continue;
+    // A game installed inside another game's folder wins over the outer one
+    const match = folders
+      .filter(
+        (f) => startedFrom(p.path, f.folder, caseSensitive) || startedFrom(p.commandLine, f.folder, caseSensitive),
+      )
+      .sort((a, b) => b.folder.length - a.folder.length)[0];
+    if (!match) continue;
+    const entry = running.get(match.appid) ?? { appid: match.appid, processes: [] };
+    entry.processes.push(p);
+    if (p.startTime && (!entry.startTime || p.startTime < entry.startTime)) entry.startTime = p.startTime;
+    running.set(match.appid, entry);
+  }
+  return [...running.values()];
+}
+
+/**
+ * Ask a running game to close (or kill it with `force`) and wait for its processes to exit.
+ * Returns false if any are still alive after `timeoutMs`.
+ */
+export async function quitGame(
+  host: SteamHost,
+  game: RunningGame,
+  options?: { force?: boolean; timeoutMs?: number },
+): Promise<boolean> {
+  const pids = new Set(game.processes.map((p) => p.pid));
+  for (const pid of pids) {
+    try {
+      await host.killProcess(pid, { force: options?.force });
+    } catch {
+      // already exited, or refused a graceful close; checked below
+    }
+  }
+  const deadline = Date.now() + (options?.timeoutMs ?? 5000);
+  for (;;) {
+    const alive = (await host.listProcesses()).some((p) => pids.has(p.pid));
+    if (!alive) return true;
+    if (Date.now() >= deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+
+const LAUNCH_OPTIONS_PATH = ["UserLocalConfigStore", "Software", "Valve", "Steam", "apps"];
+
+/**
+ * Saved launch options of a game for the given account, or "" if none are set
+ */
+export async function getLaunchOptions(
+  host: SteamHost,
+  steamId64: string,
+  appid: string,
+  paths?: SteamPaths,
+): Promise<string> {
+  const p = paths ?? (await getSteamInstallPath(host));
+  if (!p) throw new Error("Steam installation not found");
+  const localConfigPath = getLocalConfigPath(p.steamPath, steamId64);
+  if (!localConfigPath || !existsSync(localConfigPath)) return "";
+  const doc = await readVDFDocument(localConfigPath);
+  const entry = getVDFDocumentEntry(doc, [...LAUNCH_OPTIONS_PATH, appid, "LaunchOptions"]);
+  return typeof entry?.value === "string" ? entry.value : "";
+}
+
+/**
+ * Save launch options to localconfig.vdf. Steam keeps its own copy in memory and writes it back
+ * on exit, so this refuses to run while Steam is open.
+ */
+export async function setLaunchOptions(
+  host: SteamHost,
+  steamId64: string,
+  appid: string,
+  options: string,
+  paths?: SteamPaths,
+): Promise<void> {
+  const p = paths ?? (await getSteamInstallPath(host));
+  if (!p) throw new Error("Steam installation not found");
+  if (await isSteamRunning(host)) {
+    throw new Error("Steam is running. Quit Steam first, otherwise it overwrites the launch options when it exits.");
+  }
+  const localConfigPath = getLocalConfigPath(p.steamPath, steamId64);
+  if (!localConfigPath || !existsSync(localConfigPath)) {
+    throw new Error(`localconfig.vdf not found for account ${steamId64}`);
+  }
+  const doc = await readVDFDocument(localConfigPath);
+  setVDFDocumentValue(doc, [...LAUNCH_OPTIONS_PATH, appid, "LaunchOptions"], options);
+  await writeVDFFile(localConfigPath, doc);
+}
+
+/**
+ * Watch every library's steamapps folder plus libraryfolders.vdf and loginusers.vdf.
+ * Events are debounced per file, since Steam writes manifests several times in a row.
+ * Returns a function that closes all watchers.
+ */
+export function watchSteamFiles(
+  paths: SteamPaths,
+  handlers: {
+    onManifest: (manifestPath: string, libraryPath: string) => void; // added, changed or removed
+    onLibrariesChanged: () => void;
+    onUsersChanged: () => void;
+  },
+  delayMs = 500,
+): () => void {
+  const watchers: FSWatcher[] = [];
+  const debounced = new Map<string, () => void>();
+  let closed = false;
+
+  const schedule = (key: string, fn: () => void) => {
+    let run = debounced.get(key);
+    if (!run) {
+      run = debounce(() => {
+        if (!closed) fn();
+      }, delayMs);
+      debounced.set(key, run);
+    }
+    run();
+  };
+
+  const watchDir = (dir: string, onFile: (name: string) => void) => {
+    try {
+      const watcher = watch(dir, (_event, filename) => {
+        if (filename) onFile(filename.toString());
+      });
+      watcher.on("error", () => watcher.close());
+      watchers.push(watcher);
+    } catch {
+      // folder missing or not watchable
+    }
+  };
+
+  for (const library of getLibraryFolders(paths.steamPath)) {
+    watchDir(library.steamapps, (name) => {
+      if (/^appmanifest_\d+\.acf$/i.test(name)) {
+        const manifestPath = join(library.steamapps, name);
+        schedule(manifestPath, () => handlers.onManifest(manifestPath, library.path));
+      } else if (name.toLowerCase() === "libraryfolders.vdf") {
+        schedule("libraryfolders", handlers.onLibrariesChanged);
+      }
+    });
+  }
+  watchDir(paths.configPath, (name) => {
+    if (name.toLowerCase() === "loginusers.vdf") schedule("loginusers", handlers.onUsersChanged);
+  });
+
+  return () => {
+    closed = true;
+    for (const watcher of watchers) watcher.close();
+  };
+}
+
+export interface SteamDownload {
+  game: SteamGame & { download: SteamDownloadInfo };
+  library: SteamLibrary; // library the game is written to
+  stagingPath?: string; // steamapps/downloading/<appid>, if present
+}
+
+/**
+ * Apps with pending download or staging work across all libraries, busy ones first
+ */
+export function listDownloads(steamPath: string): SteamDownload[] {
+  const downloads: SteamDownload[] = [];
+  for (const library of getLibraryFolders(steamPath)) {
+    const staging = join(library.steamapps, "downloading");
+    let stagingDirs: string[] = [];
+    try {
+      stagingDirs = readdirSync(staging);
+    } catch {
+      // nothing is downloading into this library
+    }
+    for (const game of getInstalledGamesFromLibrary(library)) {
+      const hasStaging = stagingDirs.includes(game.appid);
+      if (!game.download && !hasStaging) continue;
+      downloads.push({
+        game: {
+          ...game,
+          download: game.download ?? { bytesToDownload: 0, bytesDownloaded: 0, bytesToStage: 0, bytesStaged: 0 },
+        },
+        library,
+        stagingPath: hasStaging ? join(staging, game.appid) : undefined,
+      });
+    }
+  }
+  return downloads.sort((a, b) => Number(b.game.status.busy) - Number(a.game.status.busy));
+}
+
+export type LibraryIssue =
+  // steamapps/common/<dir> without a manifest pointing at it
+  | { kind: "orphanFolder"; library: SteamLibrary; folder: string }
+  // manifest whose installdir folder is gone
+  | { kind: "missingInstall"; library: SteamLibrary; game: SteamGame; manifestPath: string }
+  // the same appid installed in more than one library
+  | { kind: "duplicate"; appid: string; name: string; copies: SteamGame[] };
+
+// installdir values named by every appmanifest in a steamapps folder, read straight from the text so a
+// manifest Steam is half-way through writing still claims its folder. `except` skips one manifest.
+function claimedInstallDirs(steamapps: string, except?: string): string[] {
+  let files: string[] = [];
+  try {
+    files = readdirSync(steamapps);
+  } catch {
+    return [];
+  }
+  const dirs: string[] = [];
+  for (const f of files) {
+    if (!/^appmanifest_\d+\.acf$/i.test(f)) continue;
+    const manifestPath = join(steamapps, f);
+    if (except && manifestPath === except) continue;
+    try {
+      const m = readFileSync(manifestPath, "utf8").match(/"installdir"\s+"((?:[^"\\]|\\.)*)"/i);
+      if (m) dirs.push(m[1].replace(/\\(.)/g, "$1"));
+    } catch {
+      // unreadable manifest; nothing to claim
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Whether any appmanifest in the folder's library names steamapps/common/<folder>.
+ * `except` ignores a manifest that is being deleted together with the folder.
+ */
+export function isInstallFolderClaimed(
+  folder: string,
+  options?: { except?: string; caseSensitive?: boolean },
+): boolean {
+  const caseSensitive = options?.caseSensitive ?? process.platform === "linux";
+  const norm = (name: string) => (caseSensitive ? name : name.toLowerCase());
+  const name = norm(basename(folder));
+  return claimedInstallDirs(dirname(dirname(folder)), options?.except).some((dir) => norm(dir) === name);
+}
+
+/**
+ * Cross-reference manifests with the folders actually present in each library. A folder only counts
+ * as orphaned when no manifest names it, including manifests that fail to parse.
+ */
+export function findLibraryIssues(steamPath: string, caseSensitive = process.platform === "linux"): LibraryIssue[] {
+  const issues: LibraryIssue[] = [];
+  const byAppid = new Map<string, SteamGame[]>();
+  const norm = (name: string) => (caseSensitive ? name : name.toLowerCase());
+
+  for (const library of getLibraryFolders(steamPath, caseSensitive)) {
+    const games = getInstalledGamesFromLibrary(library);
+    const common = join(library.steamapps, "common");
+    let folders: string[] = [];
+    try {
+      folders = readdirSync(common, { withFileTypes: true })
+        .filter((d) => d.isDirectory())
+        .map((d) => d.name);
+    } catch {
+      // library without a common folder
+    }
+    const claimed = new Set(
+      [...games.map((g) => g.installdir), ...claimedInstallDirs(library.steamapps)].filter(Boolean).map(norm),
+    );
+    const present = new Set(folders.map(norm));
+
+    for (const folder of folders) {
+      if (!claimed.has(norm(folder))) issues.push({ kind: "orphanFolder", library, folder: join(common, folder) });
+    }
+    for (const game of games) {
+      // Games being downloaded may not have a folder yet
+      if (!game.installed || game.status.busy || !game.installdir || present.has(norm(game.installdir))) continue;
+      issues.push({
+        kind: "missingInstall",
+        library,
+        game,
+        manifestPath: getAppManifestPath(library.path, game.appid),
+      });
+    }
+    for (const game of games) {
+      byAppid.set(game.appid, [...(byAppid.get(game.appid) ?? []), game]);
+    }
+  }
+
+  // Only copies in really different folders count; deleting "the other copy" of a library listed
+  // twice, or reached through a link, would delete the only install
+  const steamappsKey = (library: string) => {
+    const steamapps = join(library, "steamapps");
+    try {
+      return pathKey(realpathSync.native(steamapps), caseSensitive);
+    } catch {
+      return pathKey(steamapps, caseSensitive);
+    }
+  };
+  for (const [appid, games] of byAppid) {
+    const folders = new Set<string>();
+    const copies = games.filter((g) => {
+      const key = steamappsKey(g.libraryPath);
+      if (folders.has(key)) return false;
+      folders.add(key);
+      return true;
+    });
+    if (copies.length > 1) issues.push({ kind: "duplicate", appid, name: copies[0].name, copies });
+  }
+  return issues;
+}
+
+/**
+ * Delete a game folder under steamapps/common and/or an appmanifest. Refuses paths outside
+ * those locations of the Steam libraries so a bad entry can never remove anything else, and
+ * refuses to remove an installed copy (folder and manifest) while Steam is running.
+ */
+export async function removeLibraryFiles(
+  host: SteamHost,
+  steamPath: string,
+  files: { folder?: string; manifestPath?: string },
+  caseSensitive = process.platform === "linux",
+): Promise<void> {
+  const libraries = getLibraryFolders(steamPath, caseSensitive);
+  const inLibraryFolder = (path: string, subfolder: (library: SteamLibrary) => string) => {
+    if (!isAbsolute(path) || path.split(/[\\/]/).includes("..")) return false;
+    const parent = pathKey(dirname(path), caseSensitive);
+    return libraries.some((library) => pathKey(subfolder(library), caseSensitive) === parent);
+  };
+
+  if (files.folder) {
+    const folder = files.folder;
+    const isCommon =
+      basename(dirname(folder)).toLowerCase() === "common" &&
+      basename(dirname(dirname(folder))).toLowerCase() === "steamapps";
+    if (!isCommon || !inLibraryFolder(folder, (library) => join(library.steamapps, "common"))) {
+      throw new Error(`Refusing to delete ${folder}: not a steamapps/common folder of a Steam library`);
+    }
+  }
+  if (files.manifestPath) {
+    const manifestPath = files.manifestPath;
+    if (
+      !/^appmanifest_\d+\.acf$/.test(basename(manifestPath)) ||
+      !inLibraryFolder(manifestPath, (library) => library.steamapps)
+    ) {
+      throw new Error(`Refusing to delete ${manifestPath}: not an app manifest of a Steam library`);
+    }
+  }
+  if (files.folder && files.manifestPath && (await isSteamRunning(host))) {
+    throw new Error("Steam is running. Quit Steam first, otherwise it keeps tracking the deleted copy.");
+  }
+
+  if (files.folder) await rm(files.folder, { recursive: true });
+  if (files.manifestPath) await rm(files.manifestPath);
+}
+
+export type SteamAppCommand = "install" | "validate" | "uninstall";
+
+/**
+ * Ask the Steam client to install/repair, verify or uninstall an app. Steam shows its own
+ * dialogs; progress can be followed with watchAppManifest.
+ */
+export async function runSteamAppCommand(host: SteamHost, command: SteamAppCommand, appid: string): Promise<void> {
+  await host.openUrl(`steam://${command}/${appid}`);
+}
+
+/**
+ * Poll an appmanifest and call `onChange` whenever it is modified, with the re-read game or
+ * undefined once the manifest has been deleted. Returns a function that stops watching.
+ */
+export function watchAppManifest(
+  manifestPath: string,
+  libraryPath: string,
+  onChange: (game: SteamGame | undefined) => void,
+  intervalMs = 1500,
+): () => void {
+  let lastMtime: number | undefined = -1;
+  const timer = setInterval(() => {
+    stat(manifestPath).then(
+      (st) => {
+        if (st.mtimeMs === lastMtime) return;
+        lastMtime = st.mtimeMs;
+        onChange(readAppManifest(manifestPath, libraryPath));
+      },
+      () => {
+        if (lastMtime === undefined) return;
+        lastMtime = undefined;
+        onChange(undefined);
+      },
+    );
+  }, intervalMs);
+  return () => clearInterval(timer);
+}
+
+export interface SteamShortcut {
+  appid: string; // unsigned 32-bit shortcut ID
+  gameId: string; // 64-bit ID used by steam://rungameid/
+  name: string;
+  exe: string;
+  startDir: string;
+  launchOptions: string;
+  icon?: string;
+  tags: string[];
+  hidden: boolean;
+}
+
+// Standard CRC-32 (IEEE), used by Steam to derive legacy shortcut IDs
+function crc32(input: string): number {
+  let crc = 0xffffffff;
+  for (const byte of Buffer.from(input, "utf8")) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Compute the 64-bit game ID Steam uses to launch a non-Steam shortcut.
+ * Newer shortcuts.vdf files store the 32-bit appid; older ones derive it from CRC-32(exe + name).
+ */
+export function getShortcutGameId(exe: string, name: string, appid?: number): string {
+  const id = appid !== undefined && appid !== 0 ? appid >>> 0 : (crc32(exe + name) | 0x80000000) >>> 0;
+  return ((BigInt(id) << BigInt(32)) | BigInt(0x02000000)).toString();
+}
+
+// Case-insensitive field lookup; shortcuts.vdf key casing differs between Steam versions
+function getField(obj: BinaryVDFObject, key: string): BinaryVDFObject[string] | undefined {
+  const lower = key.toLowerCase();
+  for (const k of Object.keys(obj)) {
+    if (k.toLowerCase() === lower) return obj[k];
+  }
+  return undefined;
+}
+
+/**
+ * Read non-Steam games from userdata/<accountId>/config/shortcuts.vdf for the given account
+ */
+export async function getNonSteamShortcuts(
+  host: SteamHost,
+  steamId64: string,
+  paths?: SteamPaths,
+): Promise<SteamShortcut[]> {
+  const p = paths ?? (await getSteamInstallPath(host));
+  if (!p) return [];
+  const userData = getUserDataPath(p.steamPath, steamId64);
+  if (!userData) return [];
+  const shortcutsPath = join(userData, "config", "shortcuts.vdf");
+  if (!existsSync(shortcutsPath)) return [];
+
+  try {
+    const v = parseBinaryVDF(readFileSync(shortcutsPath));
+    const root = getField(v, "shortcuts");
+    if (!root || typeof root !== "object") return [];
+    const shortcuts: SteamShortcut[] = [];
+    for (const key of Object.keys(root)) {
+      const entry = root[key];
+      if (!entry || typeof entry !== "object") continue;
+      const str = (k: string) => {
+        const f = getField(entry, k);
+        return typeof f === "string" ? f : "";
+      };
+      const name = str("AppName").trim();
+      // Steam stores paths quoted, e.g. "C:\Emulators\app.exe"
+      const exe = str("Exe").replace(/^"|"$/g, "");
+      if (!name || !exe) continue;
+      const rawAppId = getField(entry, "appid");
+      const appid = typeof rawAppId === "number" ? rawAppId : undefined;
+      const tagsObj = getField(entry, "tags");
+      const tags =
+        tagsObj && typeof tagsObj === "object"
+          ? Object.values(tagsObj).filter((t): t is string => typeof t === "string")
+          : [];
+      const gameId = getShortcutGameId(str("Exe"), name, appid);
+      shortcuts.push({
+        appid: (BigInt(gameId) >> BigInt(32)).toString(),
+        gameId,
+        name,
+        exe,
+        startDir: str("StartDir").replace(/^"|"$/g, ""),
+        launchOptions: str("LaunchOptions"),
+        icon: str("icon") || undefined,
+        tags,
+        hidden: getField(entry, "IsHidden") === 1,
+      });
+    }
+    return shortcuts;
+  } catch (e) {
+    console.error("Failed to read shortcuts.vdf", e);
+    return [];
+  }
+}
+
+export async function launchSteamShortcut(host: SteamHost, shortcut: SteamShortcut): Promise<void> {
+  // Shortcuts can only be started through Steam's protocol handler; -applaunch does not accept them
+  await host.openUrl(`steam://rungameid/${shortcut.gameId}`);
 }
@@ -1,22 +1,122 @@
-import { readFile } from "fs/promises";
+import { copyFile, readdir, readFile, rename, unlink, writeFile } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
 
 /**
- * Minimal Valve VDF (KeyValue) parser for Steam files (libraryfolders.vdf, appmanifest_*.acf, loginusers.vdf)
- * - Supports quoted keys/values
- * - Supports nested objects with { }
- * - Ignores comments and blank lines
+ * Valve VDF (KeyValues) text parser for Steam and Source files (libraryfolders.vdf, appmanifest_*.acf, loginusers.vdf)
+ * - Quoted and unquoted keys/values, with \n \t \\ \" escapes in quoted tokens
+ * - Nested objects with { }
+ * - Conditional tags such as [$WIN32], [!$X360] or [$WIN32||$OSX] after a value or key
+ * - #base / #include directives at the top level
+ * - Duplicate keys: last one wins, or kept as arrays with `duplicateKeys: "array"`
+ * - Ignores // comments and blank lines
  */
-export type VDFValue = string | VDFObject;
+export type VDFValue = string | VDFObject | Array<string | VDFObject>;
 export type VDFObject = { [key: string]: VDFValue };
 
-export function parseVDF(content: string): VDFObject {
+export interface VDFParseOptions {
+  // How to treat a key that appears more than once in the same object (default "overwrite")
+  duplicateKeys?: "overwrite" | "array";
+  // Condition values for [$NAME] tags; defaults to the current platform ($WIN32/$WINDOWS, $LINUX/$POSIX, $OSX)
+  conditions?: Record<string, boolean>;
+  // Resolve a #base or #include directive to its parsed content; directives are skipped when omitted
+  include?: (path: string, kind: VDFDirective["kind"]) => VDFObject | undefined;
+}
+
+export interface VDFDirective {
+  kind: "#base" | "#include";
+  path: string;
+}
+
+export class VDFParseError extends Error {
+  readonly line: number; // 1-based
+  readonly column: number; // 1-based
+  readonly offset: number; // 0-based character offset
+
+  constructor(message: string, text: string, offset: number) {
+    const before = text.slice(0, offset);
+    const line = before.split("\n").length;
+    const column = offset - before.lastIndexOf("\n");
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = "VDFParseError";
+    this.line = line;
+    this.column = column;
+    this.offset = offset;
+  }
+}
+
+function defaultConditions(): Record<string, boolean> {
+  const win = process.platform === "win32";
+  const linux = process.platform === "linux";
+  const osx = process.platform === "darwin";
+  return { WIN32: win, WINDOWS: win, WIN64: win, LINUX: linux, POSIX: linux || osx, OSX: osx };
+}
+
+// Evaluate a conditional such as "$WIN32||$OSX" or "!$X360&&$WINDOWS"; unknown names are false
+function evaluateCondition(expr: string, conditions: Record<string, boolean>): boolean {
+  return expr.split("||").some((clause) =>
+    clause.split("&&").every((term) => {
+      let t = term.trim();
+      let negate = false;
+      while (t.startsWith("!")) {
+        negate = !negate;
+        t = t.slice(1).trim();
+      }
+      const name = t.replace(/^\$/, "").toUpperCase();
+      const value = conditions[name] ?? false;
+      return negate ? !value : value;
+    }),
+  );
+}
+
+function addValue(obj: VDFObject, key: string, value: string | VDFObject, duplicateKeys: "overwrite" | "array") {
+  const existing = obj[key];
+  if (duplicateKeys === "array" && existing !== undefined) {
+    obj[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+  } else {
+    obj[key] = value;
+  }
+}
+
+// Merge `source` into `target`; existing keys win when `preferTarget` is set (#base semantics)
+function mergeVDF(target: VDFObject, source: VDFObject, preferTarget: boolean) {
+  for (const key of Object.keys(source)) {
+    const src = source[key];
+    const dst = target[key];
+    if (dst === undefined) {
+      target[key] = src;
+    } else if (isVDFObject(dst) && isVDFObject(src)) {
+      mergeVDF(dst, src, preferTarget);
+    } else if (!preferTarget) {
+      target[key] = src;
+    }
+  }
+}
+
+function isVDFObject(v: VDFValue | undefined): v is VDFObject {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+/**
+ * Parse VDF text and return the root object along with any #base/#include directives found
+ */
+export function parseVDFWithDirectives(
+  content: string,
+  options?: VDFParseOptions,
+): { root: VDFObject; directives: VDFDirective[] } {
   const text = content.replace(/\r\n?/g, "\n");
+  const duplicateKeys = options?.duplicateKeys ?? "overwrite";
+  const conditions = options?.conditions ?? defaultConditions();
+  const directives: VDFDirective[] = [];
   let i = 0;
 
+  function fail(message: string, at = i): never {
+    throw new VDFParseError(message, text, at);
+  }
+
   function skipWhitespace() {
     while (i < text.length) {
       const ch = text[i];
-      if (ch === "/" && i + 1 < text.length && text[i + 1] === "/") {
+      if (ch === "/" && text[i + 1] === "/") {
         while (i < text.length && text[i] !== "\n") i++;
       } else if (ch === "\n" || ch === "\t" || ch === " " || ch === "\r") {
         i++;
@@ -27,15 +127,14 @@ export function parseVDF(content: string): VDFObject {
   }
 
   function readQuoted(): string {
-    skipWhitespace();
-    if (text[i] !== '"') throw new Error(`Expected '"' at position ${i}`);
+    const start = i;
     i++; // skip opening quote
     let result = "";
     while (i < text.length) {
       const ch = text[i++];
-      if (ch === '"') break;
+      if (ch === '"') return result;
       if (ch === "\\") {
-        if (i >= text.length) throw new Error(`Unexpected end of input after escape character at position ${i - 1}`);
+        if (i >= text.length) fail("Unexpected end of input after escape character", i - 1);
         const next = text[i++];
         if (next === "n") result += "\n";
         else if (next === "t") result += "\t";
@@ -44,55 +143,502 @@ export function parseVDF(content: string): VDFObject {
         result += ch;
       }
     }
-    return result;
+    return fail("Unterminated string", start);
+  }
+
+  function readUnquoted(): string {
+    const start = i;
+    while (i < text.length && !/[\s"{}]/.test(text[i])) {
+      if (text[i] === "/" && text[i + 1] === "/") break;
+      i++;
+    }
+    return text.slice(start, i);
   }
 
-  function readObject(): VDFObject {
-    const obj: VDFObject = {};
+  // Read a key or value token; returns undefined at '{', '}', '[' or end of input
+  function readToken(): string | undefined {
     skipWhitespace();
-    if (text[i] !== "{") throw new Error(`Expected '{' at position ${i}`);
-    i++; // skip '{'
-    while (i < text.length) {
+    const ch = text[i];
+    if (ch === undefined || ch === "{" || ch === "}" || ch === "[") return undefined;
+    if (ch === '"') return readQuoted();
+    return readUnquoted();
+  }
+
+  // Optional [$CONDITION] tag; returns true when absent
+  function readCondition(): boolean {
+    skipWhitespace();
+    if (text[i] !== "[") return true;
+    const start = i;
+    const end = text.indexOf("]", i);
+    if (end === -1 || text.slice(i, end).includes("\n")) fail("Unterminated conditional", start);
+    const expr = text.slice(i + 1, end);
+    i = end + 1;
+    return evaluateCondition(expr, conditions);
+  }
+
+  // Read the entries of an object until '}' (nested) or end of input (root)
+  function readEntries(obj: VDFObject, isRoot: boolean) {
+    for (;;) {
       skipWhitespace();
+      if (i >= text.length) {
+        if (!isRoot) fail("Expected '}' before end of input");
+        return;
+      }
       if (text[i] === "}") {
-        i++; // skip '}'
-        break;
+        if (isRoot) fail("Unexpected '}'");
+        i++;
+        return;
       }
-      const key = readQuoted();
+      const key = readToken();
+      if (key === undefined) fail(`Unexpected '${text[i]}'`);
+
+      let keep = readCondition();
       skipWhitespace();
       if (text[i] === "{") {
-        const value = readObject();
-        obj[key] = value;
+        i++;
+        const child: VDFObject = {};
+        readEntries(child, false);
+        keep = readCondition() && keep;
+        if (keep) addValue(obj, key, child, duplicateKeys);
+        continue;
+      }
+
+      const value = readToken();
+      if (value === undefined) {
+        fail(i >= text.length ? `Missing value for key "${key}"` : `Unexpected '${text[i]}' after key "${key}"`);
+      }
+      keep = readCondition() && keep;
+      if (!keep) continue;
+      if (isRoot && (key === "#base" || key === "#include")) {
+        directives.push({ kind: key as VDFDirective["kind"], path: value });
+        continue;
+      }
+      addValue(obj, key, value, duplicateKeys);
+    }
+  }
+
+  const root: VDFObject = {};
+  readEntries(root, true);
+  return { root, directives };
+}
+
+// Apply resolved directives: #include adds the file's keys, #base fills in keys that are missing
+function applyDirective(root: VDFObject, kind: VDFDirective["kind"], included: VDFObject) {
+  mergeVDF(root, included, kind === "#base");
+}
+
+export function parseVDF(content: string, options?: VDFParseOptions): VDFObject {
+  const { root, directives } = parseVDFWithDirectives(content, options);
+  if (options?.include) {
+    for (const d of directives) {
+      const included = options.include(d.path, d.kind);
+      if (included) applyDirective(root, d.kind, included);
+    }
+  }
+  return root;
+}
+
+/**
+ * Parse a VDF file, resolving #base/#include directives relative to the including file.
+ * Missing include files are skipped; include cycles are ignored.
+ */
+export function parseVDFFile(path: string, options?: Omit<VDFParseOptions, "include">): Promise<VDFObject> {
+  return loadVDFFile(path, options, new Set());
+}
+
+async function loadVDFFile(
+  path: string,
+  options: Omit<VDFParseOptions, "include"> | undefined,
+  seen: Set<string>,
+): Promise<VDFObject> {
+  const fullPath = resolve(path);
+  seen.add(fullPath);
+  const content = await readFile(fullPath, "utf8");
+  const { root, directives } = parseVDFWithDirectives(content, options);
+  for (const d of directives) {
+    const target = resolve(dirname(fullPath), d.path);
+    if (seen.has(target)) continue;
+    let included: VDFObject;
+    try {
+      included = await loadVDFFile(target, options, seen);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") continue;
+      throw e;
+    }
+    applyDirective(root, d.kind, included);
+  }
+  return root;
+}
+
+/**
+ * Case-insensitive lookup of a nested object; Steam is inconsistent about key casing
+ * (e.g. "Software/Valve/Steam/apps" vs "software/valve/steam/Apps" in localconfig.vdf)
+ */
+export function getVDFChild(obj: VDFObject | Record<string, unknown> | undefined, key: string): VDFObject | undefined {
+  if (!obj) return undefined;
+  const lower = key.toLowerCase();
+  for (const k of Object.keys(obj)) {
+    if (k.toLowerCase() === lower) {
+      const v = obj[k];
+      return v && typeof v === "object" && !Array.isArray(v) ? (v as VDFObject) : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Canonical Steam-style serialization of a plain object: quoted tokens, tab indentation,
+ * two tabs between key and value. Key order follows the object.
+ */
+export function stringifyVDF(obj: VDFObject, indent = ""): string {
+  let out = "";
+  for (const key of Object.keys(obj)) {
+    const values = obj[key];
+    for (const value of Array.isArray(values) ? values : [values]) {
+      if (typeof value === "string") {
+        out += `${indent}${quoteVDF(key)}\t\t${quoteVDF(value)}\n`;
       } else {
-        const value = readQuoted();
-        obj[key] = value;
+        out += `${indent}${quoteVDF(key)}\n${indent}{\n${stringifyVDF(value, indent + "\t")}${indent}}\n`;
       }
     }
-    return obj;
   }
+  return out;
+}
+
+function quoteVDF(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n").replace(/\t/g, "\\t")}"`;
+}
+
+/**
+ * Lossless VDF document: every entry keeps the exact source text around it, so
+ * parse -> edit -> stringify only changes what was edited.
+ */
+export interface VDFDocument {
+  entries: VDFDocumentEntry[];
+  trailing: string; // whitespace and comments after the last entry
+  newline: string; // line ending used for inserted entries ("\n" or "\r\n")
+}
 
-  function readTop(): VDFObject {
-    const root: VDFObject = {};
+export interface VDFDocumentEntry {
+  key: string;
+  value: string | VDFDocumentEntry[];
+  condition?: string; // conditional expression without brackets, e.g. "$WIN32"
+  raw: {
+    leading: string; // whitespace and comments before the key
+    key: string; // key token as written, including quotes
+    separator: string; // text between the key and the value or '{'
+    value?: string; // value token as written (string entries)
+    inner?: string; // text before the closing '}' (object entries)
+    trailing: string; // conditional after the value or '}', including preceding whitespace
+  };
+}
+
+/**
+ * Parse VDF text into a lossless document. Uses the same grammar as parseVDF.
+ */
+export function parseVDFDocument(content: string): VDFDocument {
+  const text = content;
+  let i = 0;
+
+  function fail(message: string, at = i): never {
+    throw new VDFParseError(message, text, at);
+  }
+
+  function trivia(): string {
+    const start = i;
     while (i < text.length) {
-      skipWhitespace();
-      if (i >= text.length) break;
-      const key = readQuoted();
-      skipWhitespace();
+      const ch = text[i];
+      if (ch === "/" && text[i + 1] === "/") {
+        while (i < text.length && text[i] !== "\n") i++;
+      } else if (ch === "\n" || ch === "\t" || ch === " " || ch === "\r") {
+        i++;
+      } else {
+        break;
+      }
+    }
+    return text.slice(start, i);
+  }
+
+  // Raw token text and its decoded value
+  function token(): { raw: string; value: string } | undefined {
+    const start = i;
+    const ch = text[i];
+    if (ch === undefined || ch === "{" || ch === "}" || ch === "[") return undefined;
+    if (ch === '"') {
+      i++;
+      let value = "";
+      while (i < text.length) {
+        const c = text[i++];
+        if (c === '"') return { raw: text.slice(start, i), value };
+        if (c === "\\") {
+          if (i >= text.length) fail("Unexpected end of input after escape character", i - 1);
+          const next = text[i++];
+          value += next === "n" ? "\n" : next === "t" ? "\t" : next;
+        } else {
+          value += c;
+        }
+      }
+      fail("Unterminated string", start);
+    }
+    while (i < text.length && !/[\s"{}]/.test(text[i]) && !(text[i] === "/" && text[i + 1] === "/")) i++;
+    return { raw: text.slice(start, i), value: text.slice(start, i) };
+  }
+
+  function condition(): string | undefined {
+    if (text[i] !== "[") return undefined;
+    const end = text.indexOf("]", i);
+    if (end === -1 || /[\r\n]/.test(text.slice(i, end))) fail("Unterminated conditional");
+    const expr = text.slice(i + 1, end);
+    i = end + 1;
+    return expr;
+  }
+
+  // Optional conditional and same-line comment after a value or '}'. Whitespace is only
+  // consumed when one of them follows; anything else belongs to the next entry.
+  function trailing(): { raw: string; expr?: string } {
+    const start = i;
+    trivia();
+    const expr = condition();
+    if (expr === undefined) i = start;
+    const mark = i;
+    while (text[i] === " " || text[i] === "\t") i++;
+    if (text[i] === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n" && text[i] !== "\r") i++;
+    } else {
+      i = mark;
+    }
+    return { raw: text.slice(start, i), expr };
+  }
+
+  function entries(isRoot: boolean): { list: VDFDocumentEntry[]; rest: string } {
+    const list: VDFDocumentEntry[] = [];
+    for (;;) {
+      const leading = trivia();
+      if (i >= text.length) {
+        if (!isRoot) fail("Expected '}' before end of input");
+        return { list, rest: leading };
+      }
+      if (text[i] === "}") {
+        if (isRoot) fail("Unexpected '}'");
+        i++;
+        return { list, rest: leading };
+      }
+      const key = token();
+      if (!key) fail(`Unexpected '${text[i]}'`);
+
+      const sepStart = i;
+      trivia();
+      let cond = condition();
+      trivia();
+      const separator = text.slice(sepStart, i);
+
       if (text[i] === "{") {
-        const value = readObject();
-        root[key] = value;
+        i++;
+        const children = entries(false);
+        const after = trailing();
+        cond = after.expr ?? cond;
+        list.push({
+          key: key.value,
+          value: children.list,
+          condition: cond,
+          raw: { leading, key: key.raw, separator, inner: children.rest, trailing: after.raw },
+        });
+        continue;
+      }
+
+      const value = token();
+      if (!value) fail(i >= text.length ? `Missing value for key "${key.value}"` : `Unexpected '${text[i]}'`);
+      const after = trailing();
+      list.push({
+        key: key.value,
+        value: value.value,
+        condition: after.expr ?? cond,
+        raw: { leading, key: key.raw, separator, value: value.raw, trailing: after.raw },
+      });
+    }
+  }
+
+  const root = entries(true);
+  return { entries: root.list, trailing: root.rest, newline: text.includes("\r\n") ? "\r\n" : "\n" };
+}
+
+export function stringifyVDFDocument(doc: VDFDocument): string {
+  function write(list: VDFDocumentEntry[]): string {
+    let out = "";
+    for (const e of list) {
+      out += e.raw.leading + e.raw.key + e.raw.separator;
+      if (typeof e.value === "string") {
+        out += e.raw.value ?? quoteVDF(e.value);
       } else {
-        const value = readQuoted();
-        root[key] = value;
+        out += "{" + write(e.value) + (e.raw.inner ?? "") + "}";
       }
+      out += e.raw.trailing;
     }
-    return root;
+    return out;
+  }
+  return write(doc.entries) + doc.trailing;
+}
+
+/**
+ * Plain object view of a document, with the same semantics as parseVDF
+ */
+export function vdfDocumentToObject(doc: VDFDocument, options?: Omit<VDFParseOptions, "include">): VDFObject {
+  return parseVDF(stringifyVDFDocument(doc), options);
+}
+
+// Find an entry by key path; exact key match first, then case-insensitive
+export function getVDFDocumentEntry(doc: VDFDocument, path: string[]): VDFDocumentEntry | undefined {
+  let list = doc.entries;
+  let found: VDFDocumentEntry | undefined;
+  for (const part of path) {
+    const lower = part.toLowerCase();
+    found = list.find((e) => e.key === part) ?? list.find((e) => e.key.toLowerCase() === lower);
+    if (!found) return undefined;
+    list = Array.isArray(found.value) ? found.value : [];
   }
+  return found;
+}
 
-  return readTop();
+function indentOf(leading: string): string {
+  const nl = leading.lastIndexOf("\n");
+  return nl === -1 ? leading : leading.slice(nl + 1);
+}
+
+// Create a new entry styled after its siblings
+function newEntry(
+  newline: string,
+  siblings: VDFDocumentEntry[],
+  indent: string,
+  key: string,
+  value: string | VDFDocumentEntry[],
+): VDFDocumentEntry {
+  const leading = siblings.length > 0 || indent !== "" ? newline + indent : "";
+  if (typeof value === "string") {
+    const styled = siblings.find((s) => typeof s.value === "string");
+    return {
+      key,
+      value,
+      raw: {
+        leading,
+        key: quoteVDF(key),
+        separator: styled?.raw.separator ?? "\t\t",
+        value: quoteVDF(value),
+        trailing: "",
+      },
+    };
+  }
+  return {
+    key,
+    value,
+    raw: { leading, key: quoteVDF(key), separator: newline + indent, inner: newline + indent, trailing: "" },
+  };
 }
 
-export async function parseVDFFile(path: string): Promise<VDFObject> {
-  const content = await readFile(path, "utf8");
-  return parseVDF(content);
+/**
+ * Set a string value at `path`, creating missing objects and keys. Existing tokens keep their
+ * quoting style; new entries copy the indentation and separators of their siblings.
+ */
+export function setVDFDocumentValue(doc: VDFDocument, path: string[], value: string): void {
+  if (path.length === 0) throw new Error("Path must not be empty");
+  let list = doc.entries;
+  let indent = "";
+  for (let n = 0; n < path.length; n++) {
+    const part = path[n];
+    const last = n === path.length - 1;
+    const lower = part.toLowerCase();
+    let entry = list.find((e) => e.key === part) ?? list.find((e) => e.key.toLowerCase() === lower);
+    const childIndent = list.length > 0 ? indentOf(list[0].raw.leading) : indent;
+
+    if (!entry) {
+      entry = newEntry(doc.newline, list, childIndent, part, last ? value : []);
+      list.push(entry);
+    } else if (last) {
+      if (typeof entry.value !== "string") throw new Error(`"${path.join("/")}" is an object, not a value`);
+      const quoted = entry.raw.value === undefined || entry.raw.value.startsWith('"');
+      const safeUnquoted = value !== "" && !/[\s"{}[\]\\]/.test(value) && !value.includes("//");
+      entry.value = value;
+      entry.raw.value = quoted || !safeUnquoted ? quoteVDF(value) : value;
+    }
+
+    if (!last) {
+      if (typeof entry.value === "string") throw new Error(`"${path.slice(0, n + 1).join("/")}" is not an object`);
+      // Only used when the object is empty; otherwise the first child sets the indentation
+      indent = indentOf(entry.raw.leading) + "\t";
+      list = entry.value;
+    }
+  }
+}
+
+/**
+ * Remove the entry at `path`. Returns false if it does not exist.
+ */
+export function removeVDFDocumentEntry(doc: VDFDocument, path: string[]): boolean {
+  const parent = path.length > 1 ? getVDFDocumentEntry(doc, path.slice(0, -1)) : undefined;
+  const list = path.length > 1 ? (parent && Array.isArray(parent.value) ? parent.value : undefined) : doc.entries;
+  if (!list) return false;
+  const key = path[path.length - 1];
+  const index = list.findIndex((e) => e.key === key);
+  const at = index !== -1 ? index : list.findIndex((e) => e.key.toLowerCase() === key.toLowerCase());
+  if (at === -1) return false;
+  list.splice(at, 1);
+  return true;
+}
+
+export async function readVDFDocument(path: string): Promise<VDFDocument> {
+  return parseVDFDocument(await readFile(path, "utf8"));
+}
+
+// Timestamped backups kept per file by writeVDFFile; older ones are deleted
+const DEFAULT_KEEP_BACKUPS = 3;
+const BACKUP_STAMP = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+// Delete all but the newest `keep` backups of `path`; the ISO stamps sort chronologically
+async function pruneBackups(path: string, keep: number): Promise<void> {
+  const prefix = `${basename(path)}.`;
+  const folder = dirname(path);
+  const backups = (await readdir(folder))
+    .filter((f) => f.startsWith(prefix) && f.endsWith(".bak") && BACKUP_STAMP.test(f.slice(prefix.length, -4)))
+    .sort();
+  for (const f of backups.slice(0, Math.max(0, backups.length - keep))) {
+    await unlink(join(folder, f)).catch(() => {
+      // already gone
+    });
+  }
+}
+
+/**
+ * Write VDF content atomically: the original is copied to `<path>.<timestamp>.bak`, the new
+ * content goes to a temporary file in the same folder and is renamed over the original.
+ * Only the newest `keepBackups` backups (default 3) are kept.
+ * @returns Path of the backup, if one was made
+ */
+export async function writeVDFFile(
+  path: string,
+  content: string | VDFDocument,
+  options?: { backup?: boolean; keepBackups?: number },
+): Promise<string | undefined> {
+  const text = typeof content === "string" ? content : stringifyVDFDocument(content);
+  let backupPath: string | undefined;
+  if (options?.backup !== false) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    try {
+      await copyFile(path, `${path}.${stamp}.bak`);
+      backupPath = `${path}.${stamp}.bak`;
+    } catch (e) {
+      // Nothing to back up when creating a new file
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+    }
+  }
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  try {
+    await writeFile(tmpPath, text, "utf8");
+    await rename(tmpPath, path);
+  } catch (e) {
+    await unlink(tmpPath).catch(() => {
+      // temporary file may not exist
+    });
+    throw e;
+  }
+  if (backupPath) await pruneBackups(path, options?.keepBackups ?? DEFAULT_KEEP_BACKUPS);
+  return backupPath;
 }
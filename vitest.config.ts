@@ -0,0 +1,14 @@
+import { resolve } from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@raycast/api": resolve(__dirname, "src/utils/__tests__/mocks/raycast-api.ts"),
+      "@raycast/utils": resolve(__dirname, "src/utils/__tests__/mocks/raycast-utils.ts"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});